@@ -2,7 +2,14 @@
 import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
-import { Sketch } from '..';
+import { Library, Script, Sketch } from '..';
+import {
+  applyCdnOption,
+  applyP5VersionOption,
+  die,
+  runProgram
+} from '../commands/helpers';
+import { getAnalysisCacheDir } from '../models/analysis-cache';
 import nunjucks from 'nunjucks';
 
 export const program = new Command();
@@ -23,28 +30,101 @@ program.command('tree', 'Print the tree structure of a directory and its sketche
   executableFile: 'p5-tree'
 });
 
-async function analyzeSketch(name: string, { json = false }) {
+async function analyzeSketch(
+  name: string,
+  {
+    cdn,
+    explain = false,
+    json = false,
+    p5Version
+  }: { cdn?: string; explain?: boolean; json?: boolean; p5Version?: string }
+) {
+  try {
+    applyP5VersionOption(p5Version);
+    applyCdnOption(cdn);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
   const sketch = await Sketch.fromFile(name);
+  const libraryExplanations = explain ? explainLibraries(sketch) : undefined;
   if (json) {
-    console.log(JSON.stringify(sketch, null, 2));
+    const {
+      assetIssues,
+      globalScopeIssues,
+      libraryIssues,
+      metadata,
+      p5Version
+    } = sketch;
+    console.log(
+      JSON.stringify(
+        {
+          ...sketch,
+          metadata,
+          p5Version,
+          assetIssues,
+          globalScopeIssues,
+          libraryIssues,
+          libraryExplanations
+        },
+        null,
+        2
+      )
+    );
   } else {
+    // Load the project library registry here, instead of from the template, so
+    // that nunjucks doesn't wrap a registry validation error.
+    Library.forDirectory(sketch.dir);
     nunjucks.configure(`${__dirname}/../commands/templates`, { autoescape: false });
     const markdown = nunjucks
-      .render('sketch.njk', { sketch })
+      .render('sketch.njk', { sketch, libraryExplanations })
       .replace(/\n{3,}/g, '\n\n')
       .replace(/\n+$/, '');
     console.log(markdown);
   }
 }
 
-const sketch = program.command('sketch');
-sketch
-  .command('analyze', 'Analyze a sketch')
+/** The reasons that the sketch uses each of its libraries, with the library
+ * names in place of the libraries, and file paths relative to the sketch
+ * directory. */
+function explainLibraries(sketch: Sketch) {
+  const relative = (file: string) => path.relative(sketch.dir, file);
+  return sketch.explainLibraries().map(({ library, reasons }) => ({
+    library: library.name,
+    reasons: reasons.map(reason =>
+      'locations' in reason
+        ? {
+            ...reason,
+            locations: reason.locations.map(loc =>
+              loc.file ? { ...loc, file: relative(loc.file) } : loc
+            )
+          }
+        : reason
+    )
+  }));
+}
+
+program
+  .command('sketch')
   .description('Display information about a sketch')
   .option('--json', 'Output JSON')
+  .option('--explain', 'Explain why the sketch uses each library')
+  .option('--p5-version <VERSION>', "p5.js version for sketches that don't specify one")
+  .option('--cdn <NAME>', 'CDN to load p5.js and libraries from')
   .argument('<SKETCH_FILE>', 'The sketch to analyze')
   .action(analyzeSketch);
 
+const cache = program
+  .command('cache')
+  .description('Manage the cache of script analyses');
+cache
+  .command('clear')
+  .description('Remove the cached analyses')
+  .action(() => Script.clearCache());
+cache
+  .command('path')
+  .description('Print the path to the cache')
+  .action(() => console.log(getAnalysisCacheDir()));
+
 if (require.main === module) {
-  program.parse(process.argv);
+  runProgram(program);
 }
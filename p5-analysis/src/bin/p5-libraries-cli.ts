@@ -3,16 +3,23 @@ import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
 import {
+  addLibraryToSketch,
   describeLibrary,
+  extractLibraryDefines,
+  findLibrariesDefining,
   listLibraries,
   printLibraryProperty,
+  removeLibraryFromSketch,
+  searchLibraries,
   updateDescriptions
 } from '../commands/library-commands';
+import { runProgram } from '../commands/helpers';
 import { generateLibraryPage } from '../commands/library-docs';
 import checkLibraryCollisions from '../commands/check-library-collisions';
 import {
   checkLibraries,
-  checkLibraryImportPaths
+  checkLibraryImportPaths,
+  checkLibrarySchemas
 } from '../commands/library-validation';
 
 export const program = new Command();
@@ -49,13 +56,57 @@ program
   .description('Print the known libraries to stdout')
   .option('--json')
   .option('-v, --verbose')
+  .option('-c, --category <CATEGORY>', 'Only list libraries in this category')
+  .option('-t, --tag <TAG>', 'Only list libraries with this tag')
   .action(listLibraries);
 
+program
+  .command('which')
+  .option('--json')
+  .argument('<SYMBOL>', 'A global such as createGui, or a property such as p5.Pulse')
+  .description('Print the libraries that define a symbol')
+  .action(findLibrariesDefining);
+
+program
+  .command('search')
+  .option('--json')
+  .argument('<TEXT>')
+  .description('Print the libraries whose names or descriptions contain the text')
+  .action(searchLibraries);
+
+program
+  .command('add')
+  .argument(
+    '<LIBRARY>',
+    'A library name, npm package, or URL, e.g. ml5@0.12.2 or npm:PACKAGE'
+  )
+  .argument('<SKETCH>', 'An HTML or JavaScript sketch file, or a sketch directory')
+  .description('Add a library to a sketch')
+  .action(addLibraryToSketch);
+
+program
+  .command('remove')
+  .argument('<LIBRARY>')
+  .argument('<SKETCH>', 'An HTML or JavaScript sketch file, or a sketch directory')
+  .option('-f, --force', 'Remove the library even if the sketch references it')
+  .description('Remove a library from a sketch')
+  .action(removeLibraryFromSketch);
+
+program
+  .command('extract-defines')
+  .argument('<FILE|URL>')
+  .option('-l, --library <LIBRARY>', 'The registry entry to compare to')
+  .description(
+    "Print a library's defines, from its source, and the changes to its registry entry"
+  )
+  .action(extractLibraryDefines);
+
 program
   .command('property')
   .argument('<LIBRARY>')
   .argument('<PROPERTY>')
   .option('--html')
+  .option('--cdn <NAME>', 'CDN to load the library from')
   .description("Print the library's import path")
   .action(printLibraryProperty);
 
@@ -77,11 +128,16 @@ libraryCommands
   .description('Compare local library descriptions to npm package descriptions')
   .action(updateDescriptions);
 
+libraryCommands
+  .command('schema')
+  .description('Validate the library registries against their JSON schemas')
+  .action(checkLibrarySchemas);
+
 libraryCommands
   .command('import-paths')
   .description('Verify that the import paths exist')
   .action(checkLibraryImportPaths);
 
 if (require.main === module) {
-  program.parse(process.argv);
+  runProgram(program);
 }
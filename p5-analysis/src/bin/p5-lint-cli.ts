@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { Command, Option } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { runProgram } from '../commands/helpers';
+import lint from '../commands/lint';
+
+export const program = new Command();
+
+const pkg = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf-8')
+);
+const appVersion = pkg.version;
+program.version(appVersion);
+
+program
+  .description('Report p5.js-specific mistakes in sketches')
+  .argument('[PATH...]', 'sketch files, or directories that contain sketches')
+  .addOption(
+    new Option('-f, --format <FORMAT>', 'Output format')
+      .choices(['text', 'json', 'sarif'])
+      .default('text')
+  )
+  .option('--json', 'Output JSON (same as --format json)')
+  .option('--p5-version <VERSION>', "p5.js version for sketches that don't specify one")
+  .action(lint);
+
+if (require.main === module) {
+  runProgram(program);
+}
@@ -24,12 +24,19 @@ export default async function checkLibraryCollisions(): Promise<void> {
   } else {
     console.log(collisions.size + ' collision(s) found:');
     collisions.forEach(name => {
+      const libs = definitions.get(name)!;
+      // A library with a higher priority than the others resolves the
+      // collision.
+      const priorities = libs.map(lib => lib.priority || 0);
+      const max = Math.max(...priorities);
+      const preferred =
+        priorities.filter(p => p === max).length === 1
+          ? libs[priorities.indexOf(max)]
+          : null;
       console.log(
         `${name} implies all of:`,
-        definitions
-          .get(name)!
-          .map(lib => lib.name)
-          .join(', ')
+        libs.map(lib => lib.name).join(', ') +
+          (preferred ? ` (${preferred.name} has priority)` : '')
       );
     });
   }
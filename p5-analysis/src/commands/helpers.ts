@@ -1,6 +1,34 @@
+import { Command } from 'commander';
+import { Cdn } from '../models/Cdn';
+import { setDefaultP5Version } from '../models/p5-version';
+import { RegistryValidationError } from '../models/registry-validation';
+
+/** Sets the default p5.js version from the `--p5-version` option, if it is
+ * present. Throws an error if the version is invalid. */
+export function applyP5VersionOption(version: string | undefined): void {
+  if (version !== undefined) setDefaultP5Version(version);
+}
+
+/** Sets the preferred CDN from the `--cdn` option, if it is present. Throws an
+ * error if the CDN is unknown. */
+export function applyCdnOption(name: string | undefined): void {
+  if (name !== undefined) Cdn.preferred = name;
+}
+
 /** Print the message to standard output; then exit with status code 1.
  */
 export function die(message: string, ...optionalParams: unknown[]): never {
   console.error(`Error: ${message}`, ...optionalParams);
   process.exit(1);
 }
+
+/** Parses the command-line arguments and runs the command. An invalid library
+ * registry, in strict validation mode, is reported without a stack trace. */
+export async function runProgram(program: Command): Promise<void> {
+  try {
+    await program.parseAsync(process.argv);
+  } catch (e) {
+    if (e instanceof RegistryValidationError) die(e.message);
+    throw e;
+  }
+}
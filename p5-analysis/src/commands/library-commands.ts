@@ -1,6 +1,10 @@
 import nunjucks from 'nunjucks';
-import { Library } from '..';
-import { die } from './helpers';
+import fs from 'fs';
+import { Library, LibraryInUseError, Script, Sketch } from '..';
+import { editDistance } from '../helpers';
+import { isDefined } from '../helpers/ts-extras';
+import { cachedFetch } from './cachedFetch';
+import { applyCdnOption, die } from './helpers';
 import { exec } from 'child_process';
 
 export function configureNunjucks() {
@@ -9,7 +13,7 @@ export function configureNunjucks() {
 
 export function describeLibrary(name: string, { json = false }) {
   configureNunjucks();
-  const library = Library.find({ name });
+  const library = Library.find({ name, dir: process.cwd() });
   if (!library) {
     console.warn(`Library ${name} not found`);
     process.exit(1);
@@ -24,9 +28,14 @@ export function describeLibrary(name: string, { json = false }) {
 export function printLibraryProperty(
   name: string,
   propertyName: string,
-  { html = false }
+  { cdn, html = false }: { cdn?: string; html?: boolean }
 ) {
-  const library = Library.find({ name });
+  try {
+    applyCdnOption(cdn);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
+  const library = Library.find({ name, dir: process.cwd() });
   if (!library) {
     console.warn(`Library ${name} not found`);
     process.exit(1);
@@ -39,19 +48,157 @@ export function printLibraryProperty(
   );
 }
 
-export function listLibraries({ json = false, verbose = false }) {
+export function listLibraries({
+  category,
+  json = false,
+  tag,
+  verbose = false
+}: {
+  category?: string;
+  json?: boolean;
+  tag?: string;
+  verbose?: boolean;
+}) {
+  // include the libraries from the project registry, if any
+  let libraries = Library.forDirectory(process.cwd());
+  if (category) {
+    const key = category.toLowerCase();
+    const categories = Library.categories.filter(
+      cat => cat.key.toLowerCase() === key || cat.name.toLowerCase() === key
+    );
+    if (categories.length === 0) {
+      die(
+        `Unknown category: ${category}. Choose from ${[
+          ...new Set(Library.categories.map(cat => cat.name.toLowerCase()))
+        ].join(', ')}.`
+      );
+    }
+    libraries = libraries.filter(lib =>
+      categories.some(cat => cat.key === lib.categoryKey)
+    );
+  }
+  if (tag) {
+    libraries = libraries.filter(lib =>
+      lib.tags?.some(t => t.toLowerCase() === tag.toLowerCase())
+    );
+  }
+  printLibraries(libraries, { json, verbose });
+}
+
+/** Prints the libraries that define `symbol`, a global such as `createGui` or
+ * a p5 property such as `p5.Pulse`. */
+export function findLibrariesDefining(symbol: string, { json = false }) {
+  const libraries = Library.forDirectory(process.cwd()).filter(lib =>
+    lib.globals.includes(symbol)
+  );
+  if (libraries.length === 0) die(`No library defines ${symbol}`);
+  printLibraries(libraries, { json });
+}
+
+/** Prints the libraries whose names or descriptions contain `text`, ignoring
+ * case. */
+export function searchLibraries(text: string, { json = false }) {
+  const query = text.toLowerCase();
+  const libraries = Library.forDirectory(process.cwd()).filter(
+    lib =>
+      lib.name.toLowerCase().includes(query) ||
+      lib.description.toLowerCase().includes(query)
+  );
+  if (libraries.length === 0) die(`No library matches ${text}`);
+  printLibraries(libraries, { json });
+}
+
+/** Adds the library that `spec` names to the sketch at `sketchPath`. `spec` is
+ * a library name, npm package name, or URL, optionally followed by a version,
+ * as in a `// library:` comment directive. A name must be that of a library
+ * in the registry, so that a misspelled name isn't added; `npm:NAME` adds an
+ * npm package that isn't in it. */
+export async function addLibraryToSketch(spec: string, sketchPath: string) {
+  if (!fs.existsSync(sketchPath)) die(`${sketchPath} does not exist`);
+  const sketch = await Sketch.fromFile(sketchPath);
+  const library = findLibraryToAdd(spec, sketch.dir);
+  if (await sketch.addLibrary(library)) {
+    console.log(`Added ${library.name} to ${sketch.mainFilePath}`);
+  } else {
+    console.log(`${sketch.mainFilePath} already uses ${library.name}`);
+  }
+}
+
+/** Removes the library that `spec` names from the sketch at `sketchPath`. */
+export async function removeLibraryFromSketch(
+  spec: string,
+  sketchPath: string,
+  { force = false }: { force?: boolean }
+) {
+  if (!fs.existsSync(sketchPath)) die(`${sketchPath} does not exist`);
+  const sketch = await Sketch.fromFile(sketchPath);
+  const library = Library.fromSpec(spec, { dir: sketch.dir });
+  let removed: boolean;
+  try {
+    removed = await sketch.removeLibrary(library, { force });
+  } catch (e) {
+    if (e instanceof LibraryInUseError) {
+      die(`${e.message}. Use --force to remove it anyway.`);
+    }
+    throw e;
+  }
+  if (removed) {
+    console.log(`Removed ${library.name} from ${sketch.mainFilePath}`);
+  } else {
+    console.log(`${sketch.mainFilePath} doesn't use ${library.name}`);
+  }
+}
+
+function findLibraryToAdd(spec: string, dir: string): Library {
+  if (spec.startsWith('npm:')) {
+    return Library.fromSpec(spec.slice('npm:'.length), { dir });
+  }
+  if (/^https?:\/\//.test(spec)) {
+    return Library.fromSpec(spec, { dir });
+  }
+  const library = Library.findSpec(spec, { dir });
+  if (library) return library;
+  const name = spec.replace(/(.)@.*/, '$1');
+  const suggestions = findSimilarLibraryNames(name, dir);
+  die(
+    [
+      `Unknown library: ${name}.`,
+      ...(suggestions.length > 0 ? [`Did you mean ${suggestions.join(' or ')}?`] : []),
+      `Use npm:${spec} to add an npm package that isn't in the library registry.`
+    ].join(' ')
+  );
+}
+
+/** The names of the libraries whose names or package names are close to
+ * `name`, for suggesting corrections to a misspelled name. */
+function findSimilarLibraryNames(name: string, dir: string): string[] {
+  const key = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(key.length / 4));
+  return Library.forDirectory(dir)
+    .filter(lib =>
+      [lib.name, lib.packageName]
+        .filter(isDefined)
+        .some(s => editDistance(key, s.toLowerCase()) <= maxDistance)
+    )
+    .map(lib => lib.name);
+}
+
+function printLibraries(
+  libraries: readonly Library[],
+  { json = false, verbose = false }: { json?: boolean; verbose?: boolean }
+) {
   configureNunjucks();
   if (json) {
-    console.log(JSON.stringify(Library.all, null, 2));
+    console.log(JSON.stringify(libraries, null, 2));
   } else if (verbose) {
     console.log(
       nunjucks.render('list-libraries.njk', {
-        libraries: Library.all,
+        libraries,
         categories: Library.categories
       })
     );
   } else {
-    console.log(Library.all.map(l => l.name).join('\n'));
+    console.log(libraries.map(l => l.name).join('\n'));
   }
 }
 
@@ -81,3 +228,51 @@ export async function updateDescriptions() {
     }
   });
 }
+
+/** Prints the `defines` property of the library that `fileOrUrl` implements,
+ * and the changes that it makes to the registry entry for the library. */
+export async function extractLibraryDefines(
+  fileOrUrl: string,
+  { library: name }: { library?: string }
+) {
+  const isUrl = /^https?:\/\//.test(fileOrUrl);
+  let source: string;
+  if (isUrl) {
+    const res = await cachedFetch(fileOrUrl);
+    if (!res.ok) die(`${fileOrUrl}: ${res.status} ${res.statusText}`);
+    source = await res.text();
+  } else {
+    if (!fs.existsSync(fileOrUrl)) die(`${fileOrUrl} does not exist`);
+    source = fs.readFileSync(fileOrUrl, 'utf-8');
+  }
+  const script = Script.fromSource(source, isUrl ? undefined : fileOrUrl);
+  const [err] = script.getErrors();
+  if (err) die(`${fileOrUrl}: ${err.message}`);
+
+  const defines = Library.extractDefines(script);
+  console.log(`"defines": ${JSON.stringify(defines, null, 2)}`);
+
+  const dir = process.cwd();
+  const library = name
+    ? Library.find({ name, dir })
+    : isUrl
+    ? Library.find({ importPath: fileOrUrl, dir })
+    : null;
+  if (name && !library) die(`Library ${name} not found`);
+  if (!library) return;
+
+  console.log(`\nChanges to the ${library.name} entry:`);
+  let changed = false;
+  for (const key of ['globals', 'p5'] as const) {
+    const current = new Set(library.defines?.[key] || []);
+    const extracted = new Set(defines[key]);
+    const added = defines[key].filter(s => !current.has(s));
+    const removed = [...current].filter(s => !extracted.has(s));
+    if (added.length + removed.length === 0) continue;
+    changed = true;
+    console.log(`  ${key}:`);
+    added.forEach(s => console.log(`    + ${s}`));
+    removed.forEach(s => console.log(`    - ${s}`));
+  }
+  if (!changed) console.log('  none');
+}
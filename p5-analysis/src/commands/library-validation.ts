@@ -1,15 +1,38 @@
-import { Library, Script } from '..';
+import path from 'path';
+import { Category, Library, Script } from '..';
 import checkExportCollisions from '../commands/check-library-collisions';
 import { isDefined } from '../helpers/ts-extras';
+import { formatRegistryError } from '../models/registry-validation';
 import { cachedFetch } from './cachedFetch';
 
 export async function checkLibraries({ parseScripts = false }) {
+  checkLibrarySchemas();
   await checkLibraryHomepagePaths();
   await checkLibraryImportPaths({ parseScripts });
   await findMinimizedImportPathAlternatives();
   await checkExportCollisions();
 }
 
+/** Prints the places where the bundled library registries, and the project
+ * registry for the current directory, don't match their schemas. */
+export function checkLibrarySchemas() {
+  const errors = Category.findRegistryErrors(process.cwd());
+  if (errors.length) {
+    console.log(`${errors.length} library registry schema errors:`);
+    errors.forEach(error =>
+      console.log(
+        ' ',
+        formatRegistryError({
+          ...error,
+          file: path.relative(process.cwd(), error.file)
+        })
+      )
+    );
+    console.log();
+    process.exitCode = 1;
+  }
+}
+
 export async function checkLibraryHomepagePaths() {
   const homepages = await Promise.all(
     Library.all.map(library => cachedFetch(library.homepage))
@@ -77,15 +100,6 @@ export async function checkLibraryImportPaths({ parseScripts = false }) {
       process.exitCode = 1;
     }
   }
-
-  // for (const [library, script] of libraryScripts.filter(([, script]) => !script.getErrors().length)) {
-  //   const globals = Array.from(script.globals.keys());
-  //   if (globals.length > 0) {
-  //     console.log(library.name + ':', globals.join(', '));
-  //   } else {
-  //     console.log(library.name + ':', 'none');
-  //   }
-  // }
 }
 
 export async function findMinimizedImportPathAlternatives() {
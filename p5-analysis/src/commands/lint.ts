@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { LintDiagnostic, lintRules, lintSketch, Sketch } from '..';
+import { applyP5VersionOption, die } from './helpers';
+
+type Format = 'text' | 'json' | 'sarif';
+
+/** A diagnostic whose file is relative to the current directory. */
+type FileDiagnostic = LintDiagnostic & { sketch: string };
+
+export default async function lint(
+  files: string[],
+  options: { format?: string; json?: boolean; p5Version?: string }
+) {
+  try {
+    applyP5VersionOption(options.p5Version);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
+  const format = (options.json ? 'json' : options.format || 'text') as Format;
+
+  const diagnostics: FileDiagnostic[] = [];
+  for (const file of files.length ? files : ['.']) {
+    for (const sketch of await findSketches(file)) {
+      diagnostics.push(
+        ...lintSketch(sketch).map(d => ({
+          ...d,
+          file: path.join(sketch.dir, d.file),
+          sketch: sketch.mainFilePath
+        }))
+      );
+    }
+  }
+
+  switch (format) {
+    case 'json':
+      console.log(JSON.stringify(diagnostics, null, 2));
+      break;
+    case 'sarif':
+      console.log(JSON.stringify(toSarif(diagnostics), null, 2));
+      break;
+    default:
+      for (const d of diagnostics) {
+        console.log(
+          `${d.file}:${d.line}:${d.column}: ${d.severity}: ${d.message} (${d.rule})`
+        );
+      }
+  }
+  if (diagnostics.some(d => d.severity === 'error')) {
+    process.exitCode = 1;
+  }
+}
+
+/** The sketches in file. If file is a directory, this includes the sketches in
+ * its subdirectories. */
+async function findSketches(file: string): Promise<Sketch[]> {
+  if (!fs.existsSync(file)) die(`${file} does not exist`);
+  if (!fs.statSync(file).isDirectory()) {
+    if (await Sketch.isSketchFile(file)) {
+      return [await Sketch.fromFile(file)];
+    }
+    console.warn(`${file} is not a sketch`);
+    return [];
+  }
+  const { sketches, unassociatedFiles } = await Sketch.analyzeDirectory(file);
+  const subdirs = unassociatedFiles
+    .map(name => path.join(file, name))
+    .filter(f => fs.statSync(f).isDirectory());
+  for (const dir of subdirs) {
+    sketches.push(...(await findSketches(dir)));
+  }
+  return sketches;
+}
+
+/** Converts the diagnostics to a Static Analysis Results Interchange Format
+ * (SARIF) 2.1.0 log. */
+function toSarif(diagnostics: FileDiagnostic[]) {
+  const pkg = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf-8')
+  );
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'p5-lint',
+            version: pkg.version,
+            informationUri: pkg.homepage,
+            rules: Object.entries(lintRules).map(([id, rule]) => ({
+              id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity }
+            }))
+          }
+        },
+        results: diagnostics.map(d => ({
+          ruleId: d.rule,
+          level: d.severity,
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: d.file.split(path.sep).join('/') },
+                region: { startLine: d.line, startColumn: d.column }
+              }
+            }
+          ]
+        }))
+      }
+    ]
+  };
+}
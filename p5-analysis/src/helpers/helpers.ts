@@ -2,6 +2,81 @@ export function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+/** Compares two dotted version strings, such as `1.4` and `1.11.2`, by their
+ * numeric components. A missing component counts as 0. Returns a negative
+ * number if a < b, a positive number if a > b, and 0 if they are equal. */
+export function compareVersions(a: string, b: string): number {
+  const as = a.split('.').map(Number);
+  const bs = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+    const d = (as[i] || 0) - (bs[i] || 0);
+    if (d) return d;
+  }
+  return 0;
+}
+
+/** Returns true if the versions are equal, or one is a prefix of the other,
+ * component by component. A version such as `1.4` stands for the latest
+ * `1.4.x`, so it is compatible with `1.4.2`. */
+export function versionsAreCompatible(a: string, b: string): boolean {
+  const as = a.split('.');
+  const bs = b.split('.');
+  return as.slice(0, bs.length).every((c, i) => c === bs[i]);
+}
+
+/** Returns true if `version` is in `range`. A range is a list of alternatives
+ * separated by `||`. An alternative is a space-separated list of comparisons,
+ * such as `>=0.9 <1`, that the version must all satisfy. A comparison without
+ * an operator, such as `1` or `1.x`, is satisfied by a compatible version:
+ * `1.4`, but not `2.0`. */
+export function versionInRange(version: string, range: string): boolean {
+  // A prerelease, such as `2.0.0-beta.1`, is compared as its release.
+  version = version.replace(/-.*/, '');
+  return range.split('||').some(alternative =>
+    alternative
+      .trim()
+      .split(/\s+/)
+      .every(comparison => {
+        const [, op, v] = comparison.match(/^(>=|<=|>|<|=)?\s*v?(.*)$/)!;
+        const d = compareVersions(version, v);
+        switch (op) {
+          case '>=':
+            return d >= 0;
+          case '<=':
+            return d <= 0;
+          case '>':
+            return d > 0;
+          case '<':
+            return d < 0;
+          case '=':
+            return d === 0;
+          default: {
+            const prefix = v.replace(/(^|\.)[x*]$/, '');
+            return !prefix || versionsAreCompatible(version, prefix);
+          }
+        }
+      })
+  );
+}
+
+/** The Levenshtein distance between two strings: the number of single-character
+ * insertions, deletions and substitutions that turn one into the other. */
+export function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
 // This is a very loose approximation, for purposes of sizing the LRU cache
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function sizeof(value: unknown, seen?:WeakSet<any>): number {
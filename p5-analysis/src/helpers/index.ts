@@ -1,3 +1,10 @@
-export { capitalize, sizeof } from './helpers';
+export {
+  capitalize,
+  compareVersions,
+  editDistance,
+  sizeof,
+  versionInRange,
+  versionsAreCompatible
+} from './helpers';
 export { asyncFind, asyncFilter, asyncSome } from './async-array-helpers';
-export { isHtmlPathname, isScriptPathname } from './pathname-helpers';
+export { isHtmlPathname, isScriptPathname, isTypeScriptPathname } from './pathname-helpers';
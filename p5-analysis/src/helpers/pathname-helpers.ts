@@ -2,6 +2,12 @@ export function isHtmlPathname(pathname: string): boolean {
   return /\.html?/i.test(pathname);
 }
 
+/** Tests whether the pathname is a JavaScript or TypeScript source file.
+ * TypeScript declaration files (`*.d.ts`) are not script files. */
 export function isScriptPathname(pathname: string): boolean {
-  return /\.js$/i.test(pathname);
+  return /\.(js|ts)$/i.test(pathname) && !/\.d\.ts$/i.test(pathname);
+}
+
+export function isTypeScriptPathname(pathname: string): boolean {
+  return /\.ts$/i.test(pathname) && !/\.d\.ts$/i.test(pathname);
 }
@@ -1,8 +1,27 @@
+export { applyCdnOption, applyP5VersionOption } from './commands/helpers';
+export { isTypeScriptPathname } from './helpers';
+export { AssetIssue } from './models/asset-analysis';
 export { Category } from './models/Category';
 export { Cdn } from './models/Cdn';
+export { GlobalScopeIssue } from './models/global-scope-analysis';
+export { GlobalClassification, GlobalKind } from './models/globals';
 export { Library } from './models/Library';
-export { Script } from './models/Script';
-export { Sketch, SketchStructureType } from './models/Sketch';
+export { LibraryIssue } from './models/library-analysis';
+export { LintDiagnostic, lintRules, lintSketch } from './models/lint';
+export {
+  getDefaultP5Version,
+  getP5ImportPath,
+  setDefaultP5Version
+} from './models/p5-version';
+export {
+  RegistryError,
+  RegistryValidationError,
+  RegistryValidationMode,
+  setRegistryValidationMode
+} from './models/registry-validation';
+export { Script, ScriptOptions, SourceLocation } from './models/Script';
+export { LibraryInUseError, Sketch, SketchStructureType } from './models/Sketch';
+export { SketchMetadata } from './models/sketch-metadata';
 
 import { Category } from './models/Category';
 Category.load();
@@ -1,6 +1,22 @@
 import fs from 'fs';
+import path from 'path';
 import { capitalize } from '../helpers';
 import { Library } from './Library';
+import {
+  RegistryError,
+  reportRegistryErrors,
+  validateRegistry
+} from './registry-validation';
+
+/** The name of a project library registry file. */
+export const projectLibrariesFileName = 'p5-libraries.json';
+
+type ProjectRegistryEntry = { mtimeMs: number; category: Category };
+
+const projectRegistries = new Map<string, ProjectRegistryEntry>();
+
+/** Registry files that have already been reported as invalid. */
+const reportedRegistryErrors = new Set<string>();
 
 export class Category {
   static all: Category[] = [];
@@ -9,12 +25,17 @@ export class Category {
   public readonly key: string;
   public readonly description: string;
   public readonly details?: string;
+  /** For a project category, the directory that contains its registry. Its
+   * libraries are only available to sketches in this directory or its
+   * descendants. */
+  public readonly directory?: string;
 
   private constructor(options: CategoryProperties) {
     this.name = options.name || capitalize(options.key);
     this.key = options.key;
     this.description = options.description;
     this.details = options.details;
+    this.directory = options.directory;
   }
 
   static fromProperties(props: CategoryProperties): Category {
@@ -24,19 +45,71 @@ export class Category {
   }
 
   static load(): void {
-    (JSON.parse(
-      fs.readFileSync(`${__dirname}/libraries/categories.json`, 'utf-8')
-    ) as CategoryProperties[])
-      .map(Category.fromProperties)
-      .forEach(cat => {
-        cat.addFromJsonFile(`${__dirname}/libraries/${cat.key}-libraries.json`);
-      });
+    const file = `${__dirname}/libraries/categories.json`;
+    const json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    reportRegistryErrors(validateRegistry(json, 'categories', { file }));
+    (json as CategoryProperties[]).map(Category.fromProperties).forEach(cat => {
+      cat.addFromJsonFile(`${__dirname}/libraries/${cat.key}-libraries.json`);
+    });
   }
 
   addFromJsonFile(jsonPath: string): readonly Library[] {
     return Library.addFromJsonFile(jsonPath, { categoryKey: this.key });
   }
 
+  /** Loads the project library registry that applies to `dir`, and returns its
+   * category. Returns null if there isn't one.
+   *
+   * The registry is the nearest `p5-libraries.json` file in `dir` or an
+   * ancestor directory, or the `p5.libraries` property of the nearest
+   * `package.json` file that has one. A registry is reloaded when it changes.
+   */
+  static loadProjectLibraries(dir: string): Category | null {
+    const registry = findProjectRegistry(path.resolve(dir));
+    if (!registry) return null;
+    const { file, mtimeMs, properties } = registry;
+    const cached = projectRegistries.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.category;
+    }
+    reportRegistryErrors(validateProjectRegistry(registry));
+    if (cached) {
+      Category.all.splice(Category.all.indexOf(cached.category), 1);
+      Library.removeCategory(cached.category.key);
+    }
+    const category = Category.fromProperties({
+      key: `project:${file}`,
+      name: 'Project',
+      description: `Libraries defined in ${file}.`,
+      directory: path.dirname(file)
+    });
+    projectRegistries.set(file, { mtimeMs, category });
+    properties.forEach(props => Library.fromProjectProperties(props, category.key));
+    return category;
+  }
+
+  /** Validates the bundled library registries, and the project registry that
+   * applies to `dir` if there is one, against their schemas. Returns the
+   * errors, instead of reporting them. */
+  static findRegistryErrors(dir?: string): RegistryError[] {
+    const files = [
+      { file: `${__dirname}/libraries/categories.json`, kind: 'categories' as const },
+      ...Category.all
+        .filter(cat => !cat.directory)
+        .map(cat => ({
+          file: `${__dirname}/libraries/${cat.key}-libraries.json`,
+          kind: 'libraries' as const
+        }))
+    ];
+    const registry = dir ? findProjectRegistry(path.resolve(dir)) : null;
+    return [
+      ...files.flatMap(({ file, kind }) =>
+        validateRegistry(JSON.parse(fs.readFileSync(file, 'utf-8')), kind, { file })
+      ),
+      ...(registry ? validateProjectRegistry(registry) : [])
+    ];
+  }
+
   public static findByKey(key: string): Category | undefined {
     return Category.all.find(cat => cat.key === key);
   }
@@ -51,4 +124,56 @@ type CategoryProperties = {
   name?: string;
   description: string;
   details?: string;
+  directory?: string;
 };
+
+type ProjectRegistry = {
+  file: string;
+  /** The location of the library list in the file */
+  pointer: string;
+  mtimeMs: number;
+  properties: Library.Properties[];
+};
+
+/** Finds the nearest project library registry, and reads its library
+ * properties. A registry that can't be parsed is reported, and skipped. */
+function findProjectRegistry(dir: string): ProjectRegistry | null {
+  for (;;) {
+    for (const name of [projectLibrariesFileName, 'package.json']) {
+      const file = path.join(dir, name);
+      if (!fs.existsSync(file)) continue;
+      try {
+        const json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        const properties = name === 'package.json' ? json.p5?.libraries : json;
+        if (Array.isArray(properties)) {
+          const pointer = name === 'package.json' ? '/p5/libraries' : '';
+          return { file, pointer, mtimeMs: fs.statSync(file).mtimeMs, properties };
+        }
+      } catch (e) {
+        if (!(e instanceof SyntaxError)) throw e;
+        if (name === projectLibrariesFileName && !reportedRegistryErrors.has(file)) {
+          reportedRegistryErrors.add(file);
+          console.warn(`Skipping ${file}: ${e.message}`);
+        }
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/** Validates a project registry against the library schema. An entry that
+ * replaces a bundled library inherits its properties, so it doesn't need to
+ * specify the required ones. */
+function validateProjectRegistry({
+  file,
+  pointer,
+  properties
+}: ProjectRegistry): RegistryError[] {
+  return validateRegistry(properties, 'libraries', { file, pointer }).filter(error => {
+    if (error.keyword !== 'required') return true;
+    const props = properties[Number(error.pointer.slice(pointer.length + 1))];
+    return !(props?.name && Library.find({ name: props.name }));
+  });
+}
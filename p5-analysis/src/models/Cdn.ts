@@ -1,31 +1,186 @@
+/** The parts of a CDN URL. For a GitHub CDN, `packageName` is the repository,
+ * `owner/name`, and `version` is a git tag or branch. `path` is the path of the
+ * file within the package, without a leading slash. */
+export type CdnUrlParts = { packageName: string, version?: string, path?: string };
+
 export class Cdn {
   static all = new Array<Cdn>();
+  private static _preferred?: Cdn | null;
 
-  static create({ matcher }: { matcher: RegExp }): Cdn {
-    const cdn = new Cdn(matcher);
+  /** Registers a CDN. `matcher` matches a URL. Its first group matches the
+   * package name; its optional second group, the version; and its optional
+   * third group, the path within the package. `buildUrl` is the inverse: it
+   * returns the URL of a file, or null if the CDN can't serve it. `source` is
+   * the registry that the CDN serves packages from. `packageNames` maps npm
+   * package names to the CDN's names for them, where these differ.
+   * `rewritable` is false if the CDN's URLs don't preserve the layout of the
+   * package, so that they can't be rewritten to other CDNs.
+   */
+  static create({ name, matcher, buildUrl, source = 'npm', packageNames = {}, rewritable = true }: {
+    name: string,
+    matcher: RegExp,
+    buildUrl: (parts: CdnUrlParts) => string | null,
+    source?: 'npm' | 'github',
+    packageNames?: Record<string, string>,
+    rewritable?: boolean,
+  }): Cdn {
+    const cdn = new Cdn(name, source, matcher, buildUrl, packageNames, rewritable);
     Cdn.all.push(cdn);
     return cdn;
   }
 
+  /** Finds a CDN by name. */
+  static find(name: string): Cdn | null {
+    return this.all.find(cdn => cdn.name === name) || null;
+  }
+
+  /** The CDN that generated import paths use, or null to use the CDNs in the
+   * library list. This defaults to the value of the `P5_CDN` environment
+   * variable. Setting it to an unknown CDN name throws an error. */
+  static get preferred(): Cdn | null {
+    if (this._preferred === undefined) {
+      const name = process.env.P5_CDN;
+      this._preferred = (name && this.find(name)) || null;
+      if (name && !this._preferred) {
+        console.warn(`P5_CDN names an unknown CDN: ${name}`);
+      }
+    }
+    return this._preferred;
+  }
+
+  static set preferred(cdn: Cdn | string | null) {
+    if (typeof cdn === 'string') {
+      const found = this.find(cdn);
+      if (!found) throw new Error(`Unknown CDN: ${cdn}. Choose from ${this.all.map(c => c.name).join(', ')}.`);
+      cdn = found;
+    }
+    this._preferred = cdn;
+  }
+
   static parseUrl(url: string): { packageName: string, version: string | undefined } | null {
+    const parts = this.parseUrlParts(url);
+    return parts && { packageName: parts.packageName, version: parts.version };
+  }
+
+  /** Parses a CDN URL into its parts, including the CDN. Returns null if `url`
+   * isn't on a known CDN. */
+  static parseUrlParts(url: string): (CdnUrlParts & { cdn: Cdn }) | null {
+    const cdn = this.all.find(c => c.matchesUrl(url));
+    const parts = cdn?.parseUrlParts(url);
+    return cdn && parts ? { ...parts, cdn } : null;
+  }
+
+  /** Returns `url`, modified to load version `version` of its package. Returns
+   * null if `url` isn't the URL of a package on a known CDN. */
+  static withVersion(url: string, version: string): string | null {
     const cdn = this.all.find(c => c.matchesUrl(url));
-    return cdn ? cdn.parseUrl(url) : null;
+    return cdn ? cdn.withVersion(url, version) : null;
   }
 
-  private constructor(private readonly matcher: RegExp) { }
+  /** Returns `url`, modified to load the same file from the preferred CDN.
+   * Returns `url` unchanged if there is no preferred CDN, if `url` isn't on a
+   * known CDN, or if the preferred CDN can't serve the file: for example, if it
+   * serves packages from a different source, or it requires an exact version
+   * and `url` doesn't specify one. */
+  static rewriteUrl(url: string, cdn = Cdn.preferred): string {
+    const parts = cdn && this.parseUrlParts(url);
+    if (
+      !cdn || !parts || parts.cdn === cdn || !parts.cdn.rewritable || parts.cdn.source !== cdn.source
+    ) {
+      return url;
+    }
+    return cdn.buildUrl(parts) || url;
+  }
+
+  private constructor(
+    public readonly name: string,
+    public readonly source: 'npm' | 'github',
+    private readonly matcher: RegExp,
+    private readonly urlBuilder: (parts: CdnUrlParts) => string | null,
+    private readonly packageNames: Record<string, string>,
+    private readonly rewritable: boolean
+  ) { }
 
   matchesUrl(path: string): boolean {
     return this.matcher.test(path);
   }
 
   parseUrl(url: string): { packageName: string, version: string | undefined } | null {
-    const nameWithVersion = this.matcher.exec(url)?.[1];
-    if (!nameWithVersion) return null;
-    const [packageName, version] = nameWithVersion.split('@');
-    return { packageName, version };
+    const parts = this.parseUrlParts(url);
+    return parts && { packageName: parts.packageName, version: parts.version };
+  }
+
+  parseUrlParts(url: string): CdnUrlParts | null {
+    const match = this.matcher.exec(url);
+    if (!match) return null;
+    const [, name, version, path] = match;
+    const packageName =
+      Object.keys(this.packageNames).find(key => this.packageNames[key] === name) || name;
+    return { packageName, version, ...(path ? { path } : {}) };
+  }
+
+  /** The URL of a file in a package, or of the package's main file if `path`
+   * is omitted. Returns null if this CDN can't serve it. */
+  buildUrl(parts: CdnUrlParts): string | null {
+    const packageName = this.packageNames[parts.packageName] || parts.packageName;
+    return this.urlBuilder({ ...parts, packageName });
+  }
+
+  withVersion(url: string, version: string): string | null {
+    const parts = this.parseUrlParts(url);
+    return parts ? this.buildUrl({ ...parts, version }) : null;
   }
 }
 
-Cdn.create({ matcher: /^https:\/\/cdn\.jsdelivr\.net\/npm\/([^/]+)/ });
-Cdn.create({ matcher: /^https:\/\/cdn\.skypack\.dev\/([^/@]+)/ });
-Cdn.create({ matcher: /^https:\/\/unpkg\.com\/([^/@]+)/ });
+// A package name, which may be scoped, optionally followed by a version, and
+// then the path of a file in the package.
+const packageSpec = String.raw`((?:@[^/@]+\/)?[^/@?#]+)(?:@([^/?#]+))?(?:\/([^?#]*))?`;
+
+/** Formats the `name@version/path` part of an npm CDN URL. */
+function formatPackageSpec({ packageName, version, path }: CdnUrlParts): string {
+  return `${packageName}${version ? `@${version}` : ''}${path ? `/${path}` : ''}`;
+}
+
+Cdn.create({
+  name: 'jsdelivr',
+  matcher: new RegExp(String.raw`^https:\/\/cdn\.jsdelivr\.net\/npm\/${packageSpec}`),
+  buildUrl: parts => `https://cdn.jsdelivr.net/npm/${formatPackageSpec(parts)}`,
+});
+Cdn.create({
+  name: 'skypack',
+  matcher: new RegExp(String.raw`^https:\/\/cdn\.skypack\.dev\/${packageSpec}`),
+  buildUrl: parts => `https://cdn.skypack.dev/${formatPackageSpec(parts)}`,
+});
+Cdn.create({
+  name: 'unpkg',
+  matcher: new RegExp(String.raw`^https:\/\/unpkg\.com\/${packageSpec}`),
+  buildUrl: parts => `https://unpkg.com/${formatPackageSpec(parts)}`,
+});
+// esm.sh converts the files that it serves to ES modules, unless the URL has a
+// `raw` query parameter.
+Cdn.create({
+  name: 'esm.sh',
+  matcher: new RegExp(String.raw`^https:\/\/esm\.sh\/${packageSpec}`),
+  buildUrl: parts => `https://esm.sh/${formatPackageSpec(parts)}${parts.path ? '?raw' : ''}`,
+});
+
+// cdnjs names some libraries differently from their npm packages, requires an
+// exact version, and doesn't serve a package's main file. It places the files
+// in a package's `lib` or `dist` directory at the top level.
+Cdn.create({
+  name: 'cdnjs',
+  matcher: /^https:\/\/cdnjs\.cloudflare\.com\/ajax\/libs\/([^/]+)\/([^/]+)\/([^?#]+)/,
+  buildUrl: ({ packageName, version, path }) => {
+    if (!version || !/^\d+\.\d+\.\d+/.test(version) || !path) return null;
+    return `https://cdnjs.cloudflare.com/ajax/libs/${packageName}/${version}/${path.replace(/^(lib|dist)\//, '')}`;
+  },
+  packageNames: { p5: 'p5.js' },
+  rewritable: false,
+});
+
+Cdn.create({
+  name: 'jsdelivr-gh',
+  source: 'github',
+  matcher: /^https:\/\/cdn\.jsdelivr\.net\/gh\/([^/]+\/[^/@?#]+)(?:@([^/?#]+))?(?:\/([^?#]*))?/,
+  buildUrl: parts => `https://cdn.jsdelivr.net/gh/${formatPackageSpec(parts)}`,
+});
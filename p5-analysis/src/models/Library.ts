@@ -1,10 +1,14 @@
 import fs from 'fs';
+import path from 'path';
+import { versionInRange } from '../helpers';
 import { removeSetElements, setUnion } from '../helpers/set-helpers';
 import { Category } from './Category';
 import { Cdn } from './Cdn';
-import { Script } from './Script';
+import { getDefaultP5Version } from './p5-version';
+import { reportRegistryErrors, validateRegistry } from './registry-validation';
+import { Script, SourceLocation } from './Script';
 
-export const p5Version = '1.4';
+export { p5Version } from './p5-version';
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
 export namespace Library {
@@ -16,8 +20,49 @@ export namespace Library {
     packageName?: string;
     repository?: string;
     importPath?: string;
+    /** The recommended version. The import path loads this version. */
+    version?: string;
+    /** The names of libraries that must be loaded before this one. */
+    requires?: string[];
+    /** Scripts that are loaded after the import path. */
+    scripts?: string[];
+    /** Stylesheets that the library uses. */
+    stylesheets?: string[];
+    /** When libraries define the same name, a reference to it implies the
+     * library with the highest priority. The default is 0. */
+    priority?: number;
+    /** True if the library shouldn't be used in new sketches, or a message
+     * that explains why. */
+    deprecated?: boolean | string;
+    /** The name of the library that replaces this one. */
+    replacedBy?: string;
+    /** The p5.js versions that the library works with, as a range such as
+     * `>=1.0 <2` or `0.x || 1`. See versionInRange(). */
+    p5Versions?: string;
+    /** Keywords that describe the library. */
+    tags?: string[];
     defines?: Record<'globals' | 'p5', string[]>;
   };
+
+  /** A reason that a sketch uses a library. `global` and `p5Property` are
+   * references to a name that the library defines; `directive` is a
+   * `// library:` comment that names it; `dependency` means that other
+   * libraries require it; and `scriptTag` is an HTML `<script>` element that
+   * loads it. */
+  export type InferenceReason =
+    | { type: 'global'; name: string; locations: readonly SourceLocation[] }
+    | { type: 'p5Property'; name: string; locations: readonly SourceLocation[] }
+    | { type: 'directive'; directive: string; locations: readonly SourceLocation[] }
+    | { type: 'dependency'; requiredBy: readonly string[] }
+    | { type: 'scriptTag'; importPath: string; file?: string };
+
+  /** A library that a sketch uses, and why. */
+  export type Inference = { library: Library; reasons: readonly InferenceReason[] };
+
+  /** A name that more than one library defines, and that a sketch references.
+   * `name` is a global, or a `p5.` property such as `p5.Vector`. `libraries`
+   * are the names of the libraries that define it. */
+  export type Ambiguity = { name: string; libraries: readonly string[] };
 }
 
 /** A library that can be used with p5.js sketches. */
@@ -41,9 +86,39 @@ export class Library implements Library.Properties {
   /** Global variables (functions and classes) and p5.* properties that the
    * library defines. */
   public readonly defines?: Record<'globals' | 'p5', string[]>;
+  /** The version of the library that the import path loads, if this is known.
+   * For a library from a registry, this is the version that the registry
+   * recommends, if it specifies one. For a library that a sketch pins to a
+   * version, it is that version. */
+  public readonly version?: string;
+  /** The names of libraries that must be loaded before this one. */
+  public readonly requires?: string[];
+  /** Scripts that are loaded after the import path. */
+  public readonly scripts?: string[];
+  /** Stylesheets that the library uses. */
+  public readonly stylesheets?: string[];
+  /** When libraries define the same name, a reference to it implies the
+   * library with the highest priority. */
+  public readonly priority?: number;
+  /** True if the library shouldn't be used in new sketches, or a message
+   * that explains why. */
+  public readonly deprecated?: boolean | string;
+  /** The name of the library that replaces this one. */
+  public readonly replacedBy?: string;
+  /** The p5.js versions that the library works with. If this is omitted, it
+   * works with all of them. */
+  public readonly p5Versions?: string;
+  /** Keywords that describe the library. */
+  public readonly tags?: string[];
   private _importPath?: string;
+  private readonly spec: Library.Properties;
+  /** For a pinned library, the library that it pins. */
+  private pinnedFrom?: Library;
+  /** Pinned versions of this library, by version. */
+  private readonly pinnedVersions = new Map<string, Library>();
 
   private constructor(spec: Library.Properties) {
+    this.spec = spec;
     this.name = spec.name;
     this.description = spec.description;
     this.homepage = spec.homepage;
@@ -61,18 +136,66 @@ export class Library implements Library.Properties {
       packageName: this.packageName,
       repository: this.repository,
       importPath: this.importPath,
+      version: this.version,
+      requires: this.requires,
+      scripts: this.scripts,
+      stylesheets: this.stylesheets,
+      priority: this.priority,
+      deprecated: this.deprecated,
+      replacedBy: this.replacedBy,
+      p5Versions: this.p5Versions,
+      tags: this.tags,
       defines: this.defines
     };
   }
 
+  /** Returns this library, pinned to version `version`. Its import path loads
+   * that version, if the import path is on a known CDN. The pinned library
+   * isn't added to `Library.all`. */
+  withVersion(version: string): Library {
+    const base = this.pinnedFrom || this;
+    let lib = base.pinnedVersions.get(version);
+    if (!lib) {
+      lib = new Library({ ...base.spec, version });
+      lib.pinnedFrom = base;
+      base.pinnedVersions.set(version, lib);
+    }
+    return lib;
+  }
+
+  /** Returns true if the library works with version `p5Version` of p5.js,
+   * according to its `p5Versions` property. */
+  supportsP5Version(p5Version: string): boolean {
+    return !this.p5Versions || versionInRange(p5Version, this.p5Versions);
+  }
+
+  /** The version that the registry recommends. This is the `version` property
+   * of the registry entry, or else the version in its import path. */
+  get recommendedVersion(): string | undefined {
+    const { spec } = this.pinnedFrom || this;
+    if (spec.version) return spec.version;
+    const version = spec.importPath && Cdn.parseUrl(spec.importPath)?.version;
+    return version && /^\d+(\.\d+)*$/.test(version) ? version : undefined;
+  }
+
+  /** The category that the library belongs to. */
+  get category(): Category | undefined {
+    return this.categoryKey ? Category.findByKey(this.categoryKey) : undefined;
+  }
+
   //#region instantation
-  /** Adds a library from a record in a library.json file. */
+  /** Adds a library from a record in a library.json file. A library with the
+   * same name in the same category, or with the same name and neither one in a
+   * project category, is a collision. */
   static fromProperties(
     props: Library.Properties,
     { ifExists = 'error' }: { ifExists?: 'error' | 'replace' } = {}
   ): Library {
     const lib = new Library(props);
-    const ix = Library.all.findIndex(l => l.name === lib.name);
+    const scope = lib.category?.directory;
+    const ix = Library.all.findIndex(
+      l => l.name === lib.name && l.category?.directory === scope
+    );
     if (ifExists === 'error' && ix >= 0) {
       throw new Error(`Library ${lib.name} already exists.`);
     } else if (ix >= 0) {
@@ -84,63 +207,114 @@ export class Library implements Library.Properties {
   }
 
   /** Adds all the libraries in the given library specification JSON file to the
-   * global library array `Library.all`.
+   * global library array `Library.all`. The file is validated against the
+   * library schema; see `setRegistryValidationMode()`.
    */
   static addFromJsonFile(
     jsonPath: string,
     defaultProps: Partial<Library.Properties>
   ): readonly Library[] {
-    const properties = JSON.parse(
-      fs.readFileSync(jsonPath, 'utf-8')
-    ) as Library.Properties[];
+    const json = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+    reportRegistryErrors(validateRegistry(json, 'libraries', { file: jsonPath }));
+    const properties = json as Library.Properties[];
     const libs = properties.map(props =>
       Library.fromProperties({ ...defaultProps, ...props })
     );
     return libs;
   }
 
+  /** Adds a library from a project library registry. If a bundled library has
+   * the same name, the project library takes precedence over it, and inherits
+   * the properties that `props` doesn't specify. */
+  static fromProjectProperties(
+    props: Library.Properties,
+    categoryKey: string
+  ): Library {
+    const bundled = Library.bundled.find(lib => lib.name === props.name);
+    return Library.fromProperties(
+      { ...bundled?.spec, ...props, categoryKey },
+      { ifExists: 'replace' }
+    );
+  }
+
+  /** Removes the libraries in a category. This is used to reload a project
+   * library registry. */
+  static removeCategory(categoryKey: string): void {
+    Library._all = Library._all.filter(lib => lib.categoryKey !== categoryKey);
+  }
+
+  /** Creates a library from the URL in a comment directive. Its name,
+   * package name, version, repository and home page are derived from the URL,
+   * if it is on a known CDN, GitHub, or GitHub Pages. The library isn't added to
+   * `Library.all`. */
   static fromUrl(importPath: string): Library {
-    // TODO: if it's a CDN URL, recognize the package name
-    // TODO: if it's a GitHub URL, infer the homepage
-    return Library.fromProperties({
-      name: '<library named in comment directive>',
+    return new Library({
       description: 'Library specified in script file comment directive',
       homepage: '',
+      ...getUrlMetadata(importPath),
       importPath
     });
   }
 
+  /** Creates a library from the npm package name in a comment directive. The
+   * library isn't added to `Library.all`. */
   static fromPackageName(packageName: string): Library {
-    return Library.fromProperties({
+    return new Library({
       name: packageName,
       description: 'Library specified in script file comment directive',
-      homepage: '',
+      homepage: getPackageHomepage(packageName),
       packageName
     });
   }
 
   //#endregion
 
+  /** All the libraries, including the libraries from the project registries
+   * that have been loaded. */
   static get all(): readonly Library[] {
     return this._all;
   }
 
-  /** Find a library by its name or import path. */
+  /** The libraries that aren't in a project registry. */
+  private static get bundled(): readonly Library[] {
+    return this._all.filter(lib => !lib.category?.directory);
+  }
+
+  /** The libraries that are available to sketches in `dir`. These are the
+   * bundled libraries, and the libraries in the project registry that applies
+   * to `dir`. A project library replaces a bundled library with the same name.
+   */
+  static forDirectory(dir: string): readonly Library[] {
+    const category = Category.loadProjectLibraries(dir);
+    const libs = this.bundled;
+    if (!category) return libs;
+    const projectLibs = new Map(category.libraries.map(lib => [lib.name, lib]));
+    return [
+      ...libs.map(lib => projectLibs.get(lib.name) || lib),
+      ...[...projectLibs.values()].filter(lib => !libs.some(l => l.name === lib.name))
+    ];
+  }
+
+  /** Find a library by its name or import path. If `dir` is specified, the
+   * search includes the project libraries that are available to sketches in
+   * that directory. */
   static find({
     name,
     importPath,
-    packageName
+    packageName,
+    dir
   }: {
     name?: string;
     importPath?: string;
     packageName?: string;
+    dir?: string;
   }): Library | null {
-    let libs = this.all;
-    if (libs.length === 0) {
+    if (this.all.length === 0) {
       // This has cost me a lot of debugging time a couple of times, so check
       // for it.
       console.warn('Library.all has not been initialized');
     }
+    let libs = dir ? this.forDirectory(dir) : this.bundled;
     if (name) {
       libs = libs.filter(lib => lib.name === name);
     }
@@ -154,13 +328,49 @@ export class Library implements Library.Properties {
     return libs.length === 1 ? libs[0] : null;
   }
 
+  /** Infers the libraries that a set of scripts use. */
   static inferFromScripts(
     scriptPaths: string[],
-    { ifNotExists = 'skip' } = {}
+    options: { ifNotExists?: string } = {}
   ): readonly Library[] {
+    return this.explainInferenceFromScripts(scriptPaths, options).map(
+      ({ library }) => library
+    );
+  }
+
+  /** Like inferFromScripts(), but also returns the reasons that each library
+   * was inferred: the globals and `p5.` properties that the scripts reference,
+   * the comment directives that name it, or the libraries that require it. */
+  static explainInferenceFromScripts(
+    scriptPaths: string[],
+    options: { ifNotExists?: string } = {}
+  ): Library.Inference[] {
+    return this.analyzeScripts(scriptPaths, options).inferences;
+  }
+
+  /** Returns the names that the scripts reference, that more than one library
+   * defines, and that inferFromScripts() can't attribute to one of these
+   * libraries. It infers none of them. */
+  static findAmbiguousReferences(
+    scriptPaths: string[],
+    options: { ifNotExists?: string } = {}
+  ): Library.Ambiguity[] {
+    return this.analyzeScripts(scriptPaths, options).ambiguities;
+  }
+
+  private static analyzeScripts(
+    scriptPaths: string[],
+    { ifNotExists = 'skip' } = {}
+  ): { inferences: Library.Inference[]; ambiguities: Library.Ambiguity[] } {
     if (ifNotExists === 'skip') {
-      scriptPaths = scriptPaths.filter(path => fs.existsSync(path));
+      scriptPaths = scriptPaths.filter(file => fs.existsSync(file));
     }
+    const dir = scriptPaths.length > 0 ? path.dirname(scriptPaths[0]) : undefined;
+    const candidates = dir ? this.forDirectory(dir) : this.bundled;
+    // follow the module graph
+    scriptPaths = [
+      ...new Set([...scriptPaths, ...scriptPaths.flatMap(Script.getModuleDependencies)])
+    ];
     const scripts = scriptPaths
       .map(Script.fromFile)
       .filter(script => script.getErrors().length === 0);
@@ -168,38 +378,188 @@ export class Library implements Library.Properties {
     const refs = setUnion(...scripts.map(script => script.refs));
     const p5Properties = setUnion(...scripts.map(script => script.p5propRefs));
     removeSetElements(refs, defs);
-
-    const libs = this.all.filter(
-      lib =>
-        lib.defines?.globals?.some(name => refs.has(name)) ||
-        lib.defines?.p5?.some(name => p5Properties.has(name))
+    // In instance mode, p5 and library functions are properties of the p5
+    // instance, instead of globals.
+    const instanceDefs = setUnion(
+      ...scripts.map(script => new Set(script.instanceDefs.keys()))
     );
+    const instanceRefs = setUnion(...scripts.map(script => script.instanceRefs));
+    removeSetElements(instanceRefs, instanceDefs);
+    for (const name of instanceRefs) refs.add(name);
 
-    const libraryPattern = /^library:?\b\s*(.+)/;
-    const directives = scripts.flatMap(script =>
-      script.findMatchingComments(libraryPattern)
-    );
-    const libSpecs = directives.flatMap(directive =>
-      directive.match(libraryPattern)![1].split(/,?\s+/)
-    );
-    const newLibs = libSpecs.map(
-      spec =>
-        Library.find({ name: spec }) ||
-        Library.find({ packageName: spec }) ||
-        Library.find({ importPath: spec }) ||
-        createLibraryFromSpec(spec)
-    );
-    libs.push(...newLibs.filter(lib => !libs.includes(lib)));
+    // A directive names libraries to include, or, with a leading `-`, to
+    // exclude. Both resolve an ambiguous reference.
+    const directiveLibs = new Array<Library>();
+    const excluded = new Set<string>();
+    const reasons = new Map<string, Library.InferenceReason[]>();
+    const libraryPattern = /^library\b:?\s*(.+)/;
+    for (const script of scripts) {
+      // Only a script that contains a directive is parsed for its location.
+      if (script.findMatchingComments(libraryPattern).length === 0) continue;
+      for (const { text, location } of script.findMatchingCommentLocations(
+        libraryPattern
+      )) {
+        const loc = {
+          ...(script.filename ? { file: script.filename } : {}),
+          ...location
+        };
+        for (const spec of text.match(libraryPattern)![1].split(/,?\s+/)) {
+          if (spec.startsWith('-')) {
+            excluded.add(spec.slice(1));
+            continue;
+          }
+          const lib = Library.fromSpec(spec, { dir });
+          directiveLibs.push(lib);
+          reasons.set(lib.name, [
+            ...(reasons.get(lib.name) || []),
+            { type: 'directive', directive: text, locations: [loc] }
+          ]);
+        }
+      }
+    }
+    const isExcluded = (lib: Library) =>
+      excluded.has(lib.name) ||
+      Boolean(lib.packageName && excluded.has(lib.packageName));
 
-    return libs;
+    // Instance-mode references don't record their locations, so a global that
+    // is only referenced in instance mode has none.
+    const getLocations = (
+      key: 'refLocations' | 'p5propRefLocations',
+      name: string
+    ): SourceLocation[] => scripts.flatMap(script => script[key].get(name) || []);
+    const matches = new Map<Library, ReferenceReason[]>();
+    for (const lib of candidates.filter(lib => !isExcluded(lib))) {
+      const libReasons: ReferenceReason[] = [
+        ...(lib.defines?.globals || [])
+          .filter(name => refs.has(name))
+          .map(name => ({
+            type: 'global' as const,
+            name,
+            locations: getLocations('refLocations', name)
+          })),
+        ...(lib.defines?.p5 || [])
+          .filter(name => p5Properties.has(name))
+          .map(name => ({
+            type: 'p5Property' as const,
+            name,
+            locations: getLocations('p5propRefLocations', name)
+          }))
+      ];
+      if (libReasons.length > 0) matches.set(lib, libReasons);
+    }
+    const resolved = resolveAmbiguousReferences(
+      matches,
+      new Set(directiveLibs.map(lib => lib.name))
+    );
+    const libs = [...resolved.reasons.keys()];
+    for (const [lib, libReasons] of resolved.reasons) {
+      reasons.set(lib.name, [...libReasons, ...(reasons.get(lib.name) || [])]);
+    }
 
-    function createLibraryFromSpec(spec: string) {
-      if (/^https?:\/\//.test(spec)) {
-        return Library.fromUrl(spec);
-      } else {
-        return Library.fromPackageName(spec);
+    for (const lib of directiveLibs) {
+      // A directive replaces an inferred library with the same name, so that
+      // the directive can pin its version.
+      const i = libs.findIndex(l => l.name === lib.name);
+      if (i < 0) {
+        libs.push(lib);
+      } else if (lib.version) {
+        libs[i] = lib;
       }
     }
+
+    const result = Library.withDependencies(libs, { dir }).filter(
+      lib => !isExcluded(lib)
+    );
+    const inferences = result.map(library => ({
+      library,
+      reasons: reasons.get(library.name) || [
+        {
+          type: 'dependency' as const,
+          requiredBy: result
+            .filter(lib => lib.requires?.includes(library.name))
+            .map(lib => lib.name)
+        }
+      ]
+    }));
+    return { inferences, ambiguities: resolved.ambiguities };
+  }
+
+  /** Adds the libraries that `libraries` require, and orders the result so
+   * that each library follows the libraries that it requires. Otherwise, the
+   * libraries keep their order. A required library that isn't available to
+   * sketches in `dir` is ignored, as is a dependency cycle. */
+  static withDependencies(
+    libraries: readonly Library[],
+    { dir }: { dir?: string } = {}
+  ): Library[] {
+    const result: Library[] = [];
+    const visiting = new Set<string>();
+    const visit = (lib: Library) => {
+      if (visiting.has(lib.name) || result.some(l => l.name === lib.name)) return;
+      visiting.add(lib.name);
+      for (const name of lib.requires || []) {
+        const dep =
+          libraries.find(l => l.name === name) ||
+          Library.find({ name, dir }) ||
+          Library.find({ packageName: name, dir });
+        if (dep) visit(dep);
+      }
+      visiting.delete(lib.name);
+      result.push(lib);
+    };
+    libraries.forEach(visit);
+    return result;
+  }
+
+  /** Finds the library that `url` loads, and pins it to the version that the
+   * URL names. Returns null if it isn't a known library. */
+  static fromImportPath(url: string, { dir }: { dir?: string } = {}): Library | null {
+    const lib = Library.find({ importPath: url, dir });
+    const version = getUrlVersion(url);
+    return lib && version ? lib.withVersion(version) : lib;
+  }
+
+  /** Returns the library that a spec in a `// library:` comment directive
+   * names. A spec is a library name, an npm package name, or a URL. A name or
+   * package can be followed by a version, such as `ml5@0.12.2`, that pins the
+   * library to that version; a URL on a known CDN pins the version that it
+   * names. A spec that doesn't name a known library describes a new one, which
+   * isn't added to `Library.all`. */
+  static fromSpec(spec: string, { dir }: { dir?: string } = {}): Library {
+    const lib = Library.findSpec(spec, { dir });
+    if (lib) return lib;
+    const { name, version } = splitLibrarySpec(spec);
+    const newLib = /^https?:\/\//.test(name)
+      ? Library.fromUrl(name)
+      : Library.fromPackageName(name);
+    return version ? newLib.withVersion(version) : newLib;
+  }
+
+  /** Returns the known library that a spec names, as `fromSpec` does, or
+   * null if it doesn't name one. */
+  static findSpec(spec: string, { dir }: { dir?: string } = {}): Library | null {
+    const { name, version } = splitLibrarySpec(spec);
+    const lib =
+      Library.find({ name, dir }) ||
+      Library.find({ packageName: name, dir }) ||
+      Library.find({ importPath: name, dir });
+    return lib && version ? lib.withVersion(version) : lib;
+  }
+
+  /** Computes the `defines` of a library from the script that implements it.
+   * `globals` are the script's top-level definitions, unless it is a module,
+   * and the properties that it assigns to `p5.prototype`, since global mode
+   * makes these globals. `p5` are the other properties that it assigns to
+   * `p5`. Names that begin with an underscore are treated as private. */
+  static extractDefines(script: Script): Record<'globals' | 'p5', string[]> {
+    const { prototype, p5 } = script.findP5PropertyAssignments();
+    const topLevel = script.isModule ? [] : [...script.defs.keys()];
+    const publicNames = (names: Iterable<string>) =>
+      [...new Set(names)].filter(name => !name.startsWith('_')).sort();
+    return {
+      globals: publicNames([...topLevel, ...prototype]),
+      p5: publicNames(p5)
+    };
   }
 
   get globals(): readonly string[] {
@@ -229,26 +589,77 @@ export class Library implements Library.Properties {
 
   /** A path that can be used to load the library. */
   get importPath(): string | undefined {
-    let path = this._importPath?.replace('$(P5Version)', p5Version);
-    if (path) {
-      // if the import path begins with '/', it's relative to the repository
-      if (path.startsWith('/') && this.repositoryUrl?.startsWith('https://github.com/')) {
-        path = `${this.repositoryUrl.replace(/\/$/, '')}${path}`;
-      }
-      // If it's a file in a GitHub repo, derive the corresponding CDN location.
-      // This is outside the above conditional because it should apply to
-      // absolute import paths too.
-      path = path.replace(/^https:\/\/github.com\//, 'https://cdn.jsdelivr.net/gh/');
-    } else if (this.packageName) {
-      path = `https://unpkg.com/${this.packageName}`;
-    }
-    return path;
+    return this.getImportPath();
   }
 
   private set importPath(value: string | undefined) {
     this._importPath = value;
   }
 
+  /** A path that can be used to load the library, in a sketch that uses
+   * version `p5Version` of p5.js. If a preferred CDN is set (see
+   * `Cdn.preferred`), the path uses it where possible. */
+  getImportPath(p5Version = getDefaultP5Version()): string | undefined {
+    let path = this._importPath && this.resolvePath(this._importPath, p5Version);
+    if (!path && this.packageName) {
+      path = Cdn.find('unpkg')!.buildUrl({ packageName: this.packageName })!;
+    }
+    if (path && this.version) {
+      path = Cdn.withVersion(path, this.version) || path;
+    }
+    return path && Cdn.rewriteUrl(path);
+  }
+
+  /** The scripts that load the library, in the order that they should be
+   * loaded: the import path, followed by `scripts`. */
+  getScriptPaths(p5Version = getDefaultP5Version()): string[] {
+    const importPath = this.getImportPath(p5Version);
+    return [
+      ...(importPath ? [importPath] : []),
+      ...(this.scripts || []).map(s => this.resolveAssetPath(s, p5Version))
+    ];
+  }
+
+  /** The stylesheets that the library uses. */
+  getStylesheetPaths(p5Version = getDefaultP5Version()): string[] {
+    return (this.stylesheets || []).map(s => this.resolveAssetPath(s, p5Version));
+  }
+
+  private resolvePath(path: string, p5Version: string): string {
+    path = path.replace('$(P5Version)', p5Version);
+    // if the path begins with '/', it's relative to the repository
+    if (path.startsWith('/') && this.repositoryUrl?.startsWith('https://github.com/')) {
+      path = `${this.repositoryUrl.replace(/\/$/, '')}${path}`;
+    }
+    // If it's a file in a GitHub repo, derive the corresponding CDN location.
+    // This is outside the above conditional because it should apply to
+    // absolute paths too.
+    const match = path.match(/^https:\/\/github.com\/([^/]+\/[^/]+)\/?(.*)/);
+    if (match) {
+      const [, packageName, file] = match;
+      path = Cdn.find('jsdelivr-gh')!.buildUrl({
+        packageName,
+        path: file || undefined
+      })!;
+    }
+    return path;
+  }
+
+  /** Resolves the path of a script or stylesheet. If the library is pinned to a
+   * version, an asset in the same package as the import path is pinned to that
+   * version too. Like the import path, it uses the preferred CDN. */
+  private resolveAssetPath(path: string, p5Version: string): string {
+    path = this.resolvePath(path, p5Version);
+    if (this.version && this._importPath) {
+      const importPath = this.resolvePath(this._importPath, p5Version);
+      const packageName = Cdn.parseUrl(importPath)?.packageName;
+      if (packageName && Cdn.parseUrl(path)?.packageName === packageName) {
+        path = Cdn.withVersion(path, this.version) || path;
+      }
+    }
+    return Cdn.rewriteUrl(path);
+  }
+
   private matchesImportPath(path: string): boolean {
     let importPath = this.importPath;
     if (!importPath) {
@@ -280,3 +691,155 @@ export class Library implements Library.Properties {
     return false;
   }
 }
+
+/** A reason that is a reference to a name that a library defines. */
+type ReferenceReason = Extract<
+  Library.InferenceReason,
+  { type: 'global' | 'p5Property' }
+>;
+
+/** Chooses among the libraries that define the same referenced name. A library
+ * that a directive names wins; then the library with the highest priority; and
+ * then the library that matches the most references. `matches` maps each
+ * library to the references that it defines. A library is inferred if it wins
+ * one of its references, or is the only library that defines it; only these
+ * references are its reasons. A name whose libraries tie, and none of which is
+ * otherwise inferred, is ambiguous. */
+function resolveAmbiguousReferences(
+  matches: ReadonlyMap<Library, readonly ReferenceReason[]>,
+  named: ReadonlySet<string>
+): {
+  reasons: Map<Library, ReferenceReason[]>;
+  ambiguities: Library.Ambiguity[];
+} {
+  const getName = (reason: ReferenceReason) =>
+    reason.type === 'p5Property' ? `p5.${reason.name}` : reason.name;
+  const definers = new Map<string, Library[]>();
+  for (const [lib, libReasons] of matches) {
+    for (const name of libReasons.map(getName)) {
+      definers.set(name, [...(definers.get(name) || []), lib]);
+    }
+  }
+  const score = (lib: Library) => [
+    named.has(lib.name) ? 1 : 0,
+    lib.priority || 0,
+    matches.get(lib)!.length
+  ];
+  const compareScores = (a: Library, b: Library) => {
+    const [sa, sb] = [score(a), score(b)];
+    const i = sa.findIndex((n, i) => n !== sb[i]);
+    return i < 0 ? 0 : sa[i] - sb[i];
+  };
+  const winners = new Map<string, Library[]>();
+  for (const [name, libs] of definers) {
+    const best = libs.reduce((a, b) => (compareScores(b, a) > 0 ? b : a));
+    winners.set(
+      name,
+      libs.filter(lib => compareScores(lib, best) === 0)
+    );
+  }
+  const inferred = new Set(
+    [...winners.values()].filter(libs => libs.length === 1).map(([lib]) => lib)
+  );
+  const ambiguities = [...winners]
+    .filter(([, libs]) => libs.length > 1 && !libs.some(lib => inferred.has(lib)))
+    .map(([name, libs]) => ({ name, libraries: libs.map(lib => lib.name) }));
+  const reasons = new Map<Library, ReferenceReason[]>();
+  for (const [lib, libReasons] of matches) {
+    if (!inferred.has(lib)) continue;
+    reasons.set(
+      lib,
+      libReasons.filter(reason => winners.get(getName(reason))!.includes(lib))
+    );
+  }
+  return { reasons, ambiguities };
+}
+
+/** The home page of an npm package. */
+function getPackageHomepage(packageName: string): string {
+  return `https://www.npmjs.com/package/${packageName}`;
+}
+
+/** URL patterns, other than GitHub CDN URLs, of files in a GitHub repository.
+ * Each pattern's first group is the repository, `owner/name`, and its optional
+ * second group is the git ref. */
+const repositoryUrlPatterns = [
+  /^https:\/\/raw\.githubusercontent\.com\/([^/]+\/[^/]+)\/([^/]+)\//,
+  /^https:\/\/github\.com\/([^/]+\/[^/]+)(?:\/(?:raw|blob)\/([^/]+)\/)?/
+];
+
+/** The repository (`owner/name`) and git ref of a URL of a file in a GitHub
+ * repository, or null if `url` isn't one. */
+function parseRepositoryUrl(url: string): { repository: string; ref?: string } | null {
+  const parsed = Cdn.parseUrlParts(url);
+  if (parsed?.cdn.source === 'github') {
+    return { repository: parsed.packageName, ref: parsed.version };
+  }
+  for (const pattern of repositoryUrlPatterns) {
+    const match = url.match(pattern);
+    if (match) return { repository: match[1], ref: match[2] };
+  }
+  return null;
+}
+
+/** The library properties that can be derived from an import path: the
+ * package name, version and home page of a package on a known CDN; the
+ * repository, version and home page of a file in a GitHub repository, or the
+ * home page of a file on GitHub Pages. The name is the package or repository
+ * name, or else the file name without its extension.
+ *
+ * An add-on file in a package, such as p5.js's `addons/p5.sound.min.js`, isn't
+ * the package, so it is named after the file, and doesn't get the package's
+ * name or version. */
+function getUrlMetadata(
+  url: string
+): Partial<Library.Properties> & Pick<Library.Properties, 'name'> {
+  const filename = path.posix.basename(url.replace(/[?#].*/, ''));
+  const name = filename.replace(/(\.min)?\.js$/, '');
+  const parsed = Cdn.parseUrlParts(url);
+  if (parsed?.cdn.source === 'npm') {
+    if (/(^|\/)addons\//.test(parsed.path || '')) return { name };
+    const { packageName, version } = parsed;
+    return {
+      name: packageName,
+      packageName,
+      homepage: getPackageHomepage(packageName),
+      ...(version ? { version } : {})
+    };
+  }
+  const repo = parseRepositoryUrl(url);
+  if (repo) {
+    const { repository, ref } = repo;
+    const repositoryUrl = `https://github.com/${repository}`;
+    return {
+      name: repository.split('/')[1],
+      repository: repositoryUrl,
+      homepage: repositoryUrl,
+      // a branch name such as `main` isn't a version
+      ...(ref && /^v?\d/.test(ref) ? { version: ref } : {})
+    };
+  }
+  const pages = url.match(/^https:\/\/([^.]+)\.github\.io\/([^/]+)\//);
+  if (pages) {
+    const [homepage, , repo] = pages;
+    return { name: repo, homepage };
+  }
+  return { name };
+}
+
+/** The version that a CDN URL names, or null if it doesn't name one. */
+function getUrlVersion(url: string): string | null {
+  return Cdn.parseUrl(url)?.version || null;
+}
+
+/** Splits a library spec into a name, package name or URL, and the version
+ * that it names. */
+function splitLibrarySpec(spec: string): { name: string; version: string | null } {
+  if (/^https?:\/\//.test(spec)) {
+    return { name: spec, version: getUrlVersion(spec) };
+  }
+  const versionIndex = spec.lastIndexOf('@');
+  return versionIndex > 0
+    ? { name: spec.slice(0, versionIndex), version: spec.slice(versionIndex + 1) }
+    : { name: spec, version: null };
+}
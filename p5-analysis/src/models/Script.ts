@@ -3,9 +3,29 @@ import crypto from 'crypto';
 import fs from 'fs';
 import lruCache from 'lru-cache';
 import path from 'path';
-import { sizeof } from '../helpers';
+import { isTypeScriptPathname, sizeof } from '../helpers';
 import {
-  findCallArguments, findGlobalDefinitions, findGlobalReferences, findPropertyReferences
+  clearAnalysisCache,
+  getAnalysisCacheKey,
+  readAnalysisCache,
+  setAnalysisCacheEnabled,
+  writeAnalysisCache
+} from './analysis-cache';
+import { classifyGlobals, GlobalClassification } from './globals';
+import { Library } from './Library';
+import {
+  findAssetReferenceLocations,
+  findGlobalDeclarationLocations,
+  findGlobalDefinitionLocations,
+  findGlobalDefinitions,
+  findGlobalReferenceLocations,
+  findGlobalReferences,
+  findImports,
+  findInstanceModeReferences,
+  findMatchingCommentLocations,
+  findP5PropertyAssignments,
+  findPropertyReferenceLocations,
+  isModule
 } from './script-analysis';
 
 const { P5_ANALYSIS_PRINT_CACHE_STATS } = process.env;
@@ -13,7 +33,36 @@ const { P5_ANALYSIS_PRINT_CACHE_STATS } = process.env;
 // This type definition is repeated here, instead of imported from
 // script-analysis.ts, in order to prevent a cascade of import dependencies that
 // would add a dependency on babel to this package's clients.
-type DefinitionType = 'function' | 'class' | 'variable';
+export type DefinitionType = 'function' | 'class' | 'variable';
+
+/** A location in a script. `line` is 1-based; `column` is 0-based, as in Babel
+ * and ESTree source locations. `range` is the start and end character offsets
+ * of the source text. `file` is the script's filename, if it has one. */
+export type SourceLocation = {
+  file?: string;
+  line: number;
+  column: number;
+  range: [number, number];
+};
+
+/** A reference to a free variable, and its location. */
+export type ReferenceLocation = SourceLocation & {
+  name: string;
+  /** True if the reference is evaluated when the script is loaded: it is not
+   * inside a function body. */
+  loadTime: boolean;
+  /** True if the reference is the callee of a function call: `name(…)`. */
+  call: boolean;
+};
+
+/** A top-level declaration, and its location. `kind` is the kind of the Babel
+ * binding: `hoisted` for a function declaration; `var`, `let` or `const` for
+ * a variable; `let` for a class declaration; `module` for an import. */
+export type DeclarationLocation = SourceLocation & {
+  name: string;
+  kind: string;
+  type: DefinitionType;
+};
 
 interface ScriptAnalysis {
   /** Names that are defined in the script. This is a map of symbols to
@@ -21,22 +70,66 @@ interface ScriptAnalysis {
   defs: ReadonlyMap<string, DefinitionType>;
   /** Free variables that the script references. */
   refs: ReadonlySet<string>;
-  /** String arguments that occur in the first position to calls `loadImage()`,
-   * etc. */
+  /** Free variables that the script references outside of function bodies.
+   * These are evaluated when the script is loaded. */
+  loadTimeRefs: ReadonlySet<string>;
+  /** The paths of the asset files that the script loads: the constant string
+   * values of the path arguments to `loadImage()`, `loadShader()`,
+   * `createVideo()`, etc., including instance-mode calls such as
+   * `p.loadImage()`. */
   loadCallArguments: ReadonlySet<string>;
   p5propRefs: ReadonlySet<string>;
+  /** The locations of the definitions in `defs`: for each name, the
+   * identifiers that declare it, and the `window.name` assignments. */
+  defLocations: ReadonlyMap<string, readonly SourceLocation[]>;
+  /** The locations of the references in `refs`. */
+  refLocations: ReadonlyMap<string, readonly SourceLocation[]>;
+  /** The locations of the expressions that spell the paths in
+   * `loadCallArguments`. */
+  loadCallArgumentLocations: ReadonlyMap<string, readonly SourceLocation[]>;
+  /** The locations of the `p5.prop` expressions in `p5propRefs`. */
+  p5propRefLocations: ReadonlyMap<string, readonly SourceLocation[]>;
+  /** The names of the p5 instance parameters of instance-mode sketch
+   * functions: `p` in `new p5(p => {…})`. */
+  p5InstanceNames: ReadonlySet<string>;
+  /** Properties that instance-mode sketch functions assign to the p5
+   * instance, such as `setup` in `p.setup = function() {…}`. This is a map of
+   * property names to definition types. */
+  instanceDefs: ReadonlyMap<string, DefinitionType>;
+  /** Properties of the p5 instance that instance-mode sketch functions
+   * reference, such as `loadSound` in `p.loadSound(…)`. */
+  instanceRefs: ReadonlySet<string>;
+  /** Module specifiers that the script imports. This is empty unless the
+   * script is a module. */
+  imports: ReadonlySet<string>;
+  /** True if the script is an ES module: it contains an `import` or `export`
+   * declaration. */
+  isModule: boolean;
 }
 
+/** The options that `Script.options` sets. */
+export type ScriptOptions = {
+  cacheSize?: number;
+  persistentCache?: boolean;
+};
+
+/** The analysis of a script, as it is stored in the persistent cache. */
+type PersistentCacheEntry =
+  | { type: 'analysis'; analysis: ScriptAnalysis; comments: string[] }
+  | { type: 'syntaxError'; message: string; properties: Record<string, unknown> };
+
 /** Analyzes a script (string or file) for automatic library inclusion. An
  * instance of this class is used to analyze a single script. It is immutable:
  * instantiate a new instance if the file changes.
  *
- * Analysis is cached in an lru-cache. */
+ * Analysis is cached in an lru-cache. The analysis of a file is also cached on
+ * disk, so that it persists between processes; see analysis-cache.ts. */
 export class Script implements ScriptAnalysis {
   // caches:
   private _analysis?: Readonly<ScriptAnalysis>;
   private _syntaxError?: SyntaxError;
   private _ast?: Readonly<ReturnType<typeof parse>>;
+  private _comments?: readonly string[];
 
   constructor(public readonly source: string, public readonly filename?: string) {
     if (this.cacheKey) {
@@ -51,11 +144,31 @@ export class Script implements ScriptAnalysis {
     }
   }
 
-  static set options({ cacheSize }: { cacheSize?: number }) {
+  /** The options that have been set. */
+  static get options(): ScriptOptions {
+    return { ...scriptOptions };
+  }
+
+  /** `cacheSize` is the approximate size, in bytes, of each in-memory cache.
+   * It defaults to 16 MB. `persistentCache` enables or disables the on-disk
+   * cache. */
+  static set options({ cacheSize, persistentCache }: ScriptOptions) {
     if (cacheSize) {
+      scriptOptions.cacheSize = cacheSize;
       scriptAnalysisCache.max = cacheSize;
       commentDirectiveCache.max = cacheSize;
     }
+    if (persistentCache !== undefined) {
+      scriptOptions.persistentCache = persistentCache;
+      setAnalysisCacheEnabled(persistentCache);
+    }
+  }
+
+  /** Removes the cached analyses, both in memory and on disk. */
+  static clearCache(): void {
+    scriptAnalysisCache.reset();
+    commentDirectiveCache.reset();
+    clearAnalysisCache();
   }
 
   static fromSource(source: string, filePath?: string): Script {
@@ -79,6 +192,37 @@ export class Script implements ScriptAnalysis {
       .digest('hex');
   }
 
+  /** The key for the persistent cache. Only files are cached there. */
+  private get persistentCacheKey() {
+    return this.filename ? getAnalysisCacheKey(this.source, this.filename) : undefined;
+  }
+
+  /** Restores the analysis, or the syntax error, from the persistent cache.
+   * Returns true if the cache had an entry for this script. */
+  private readPersistentCache(): boolean {
+    const key = this.persistentCacheKey;
+    const entry = key && readAnalysisCache<PersistentCacheEntry>(key);
+    if (!entry) return false;
+    if (entry.type === 'analysis') {
+      this._analysis = entry.analysis;
+      this._comments = entry.comments;
+    } else {
+      this._syntaxError = Object.assign(
+        new SyntaxError(entry.message),
+        entry.properties
+      );
+    }
+    if (this.cacheKey) {
+      scriptAnalysisCache.set(this.cacheKey, [
+        this.cacheDigest!,
+        this._analysis
+          ? { type: 'analysis', analysis: this._analysis }
+          : { type: 'syntaxError', syntaxError: this._syntaxError! }
+      ]);
+    }
+    return true;
+  }
+
   private get analysis(): Readonly<ScriptAnalysis> {
     if (this._analysis) {
       return this._analysis;
@@ -86,15 +230,41 @@ export class Script implements ScriptAnalysis {
     if (this._syntaxError) {
       throw this._syntaxError;
     }
+    if (this.readPersistentCache()) {
+      return this.analysis;
+    }
     if (P5_ANALYSIS_PRINT_CACHE_STATS) {
       console.log(`Script analysis cache miss: ${this.filename}`);
     }
     const { ast } = this;
+    const instanceMode = findInstanceModeReferences(ast);
+    const refLocations = new Map<string, SourceLocation[]>();
+    for (const { name, file, line, column, range } of findGlobalReferenceLocations(
+      ast
+    )) {
+      const loc = { file, line, column, range };
+      refLocations.set(name, [...(refLocations.get(name) || []), loc]);
+    }
+    const loadCallArgumentLocations = findAssetReferenceLocations(
+      ast,
+      instanceMode.instanceNames
+    );
+    const p5propRefLocations = findPropertyReferenceLocations(ast, 'p5');
     const analysis = {
       defs: findGlobalDefinitions(ast),
-      refs: findGlobalReferences(ast),
-      loadCallArguments: findCallArguments(ast, /^load.*/),
-      p5propRefs: findPropertyReferences(ast, 'p5')
+      refs: new Set(refLocations.keys()),
+      loadTimeRefs: findGlobalReferences(ast, { loadTimeOnly: true }),
+      loadCallArguments: new Set(loadCallArgumentLocations.keys()),
+      p5propRefs: new Set(p5propRefLocations.keys()),
+      defLocations: findGlobalDefinitionLocations(ast),
+      refLocations,
+      loadCallArgumentLocations,
+      p5propRefLocations,
+      p5InstanceNames: instanceMode.instanceNames,
+      instanceDefs: instanceMode.defs,
+      instanceRefs: instanceMode.refs,
+      imports: findImports(ast),
+      isModule: isModule(ast)
     };
     this._analysis = analysis;
     if (this.cacheKey) {
@@ -103,13 +273,24 @@ export class Script implements ScriptAnalysis {
         { type: 'analysis', analysis }
       ]);
     }
+    if (this.persistentCacheKey) {
+      writeAnalysisCache<PersistentCacheEntry>(this.persistentCacheKey, {
+        type: 'analysis',
+        analysis,
+        comments: [...this.comments]
+      });
+    }
     return analysis;
   }
 
   private get ast(): ReturnType<typeof parse> {
     if (!this._ast && !this._syntaxError) {
       try {
-        this._ast = parse(this.source, { sourceFilename: this.filename });
+        this._ast = parse(this.source, {
+          sourceFilename: this.filename,
+          sourceType: 'unambiguous',
+          plugins: this.isTypeScript ? ['typescript'] : []
+        });
       } catch (err) {
         if (!(err instanceof SyntaxError)) throw err;
         this._syntaxError = err;
@@ -119,12 +300,25 @@ export class Script implements ScriptAnalysis {
             { type: 'syntaxError', syntaxError: err }
           ]);
         }
+        if (this.persistentCacheKey) {
+          writeAnalysisCache<PersistentCacheEntry>(this.persistentCacheKey, {
+            type: 'syntaxError',
+            message: err.message,
+            properties: { ...err }
+          });
+        }
       }
     }
     if (this._syntaxError) throw this._syntaxError;
     return this._ast!;
   }
 
+  /** True if the script is a TypeScript file. This is determined by the
+   * filename extension. */
+  get isTypeScript(): boolean {
+    return Boolean(this.filename && isTypeScriptPathname(this.filename));
+  }
+
   get defs(): ReadonlyMap<string, DefinitionType> {
     return this.analysis.defs;
   }
@@ -133,6 +327,10 @@ export class Script implements ScriptAnalysis {
     return this.analysis.refs;
   }
 
+  get loadTimeRefs(): ReadonlySet<string> {
+    return this.analysis.loadTimeRefs;
+  }
+
   get loadCallArguments(): ReadonlySet<string> {
     return this.analysis.loadCallArguments;
   }
@@ -141,6 +339,72 @@ export class Script implements ScriptAnalysis {
     return this.analysis.p5propRefs;
   }
 
+  get defLocations(): ReadonlyMap<string, readonly SourceLocation[]> {
+    return this.analysis.defLocations;
+  }
+
+  get refLocations(): ReadonlyMap<string, readonly SourceLocation[]> {
+    return this.analysis.refLocations;
+  }
+
+  get loadCallArgumentLocations(): ReadonlyMap<string, readonly SourceLocation[]> {
+    return this.analysis.loadCallArgumentLocations;
+  }
+
+  get p5propRefLocations(): ReadonlyMap<string, readonly SourceLocation[]> {
+    return this.analysis.p5propRefLocations;
+  }
+
+  get p5InstanceNames(): ReadonlySet<string> {
+    return this.analysis.p5InstanceNames;
+  }
+
+  get instanceDefs(): ReadonlyMap<string, DefinitionType> {
+    return this.analysis.instanceDefs;
+  }
+
+  get instanceRefs(): ReadonlySet<string> {
+    return this.analysis.instanceRefs;
+  }
+
+  get imports(): ReadonlySet<string> {
+    return this.analysis.imports;
+  }
+
+  get isModule(): boolean {
+    return this.analysis.isModule;
+  }
+
+  /** Classifies the free variables that the script references, and that it
+   * doesn't define, by their source: p5.js, the browser, one of `libraries`,
+   * or unknown. Returns a map of names to classifications. */
+  classifyGlobalReferences(options: {
+    p5Version: string;
+    libraries: readonly Library[];
+  }): Map<string, GlobalClassification> {
+    const names = [...this.refs].filter(name => !this.defs.has(name));
+    return classifyGlobals(names, options);
+  }
+
+  /** The references to free variables, with their locations. Unlike the
+   * analysis properties, this is not cached. */
+  findGlobalReferenceLocations(): ReferenceLocation[] {
+    return findGlobalReferenceLocations(this.ast);
+  }
+
+  /** The top-level declarations, with their locations. Unlike the analysis
+   * properties, this is not cached. */
+  findGlobalDeclarationLocations(): DeclarationLocation[] {
+    return findGlobalDeclarationLocations(this.ast);
+  }
+
+  /** The properties that the script assigns to `p5.prototype` and to `p5`.
+   * This is used to generate the `defines` of a library from its source.
+   * Unlike the analysis properties, this is not cached. */
+  findP5PropertyAssignments(): { prototype: Set<string>; p5: Set<string> } {
+    return findP5PropertyAssignments(this.ast);
+  }
+
   findMatchingComments(pattern: RegExp): readonly string[] {
     const cacheKey = this.cacheKey && `${this.cacheKey}-${pattern.toString()}`;
     if (cacheKey) {
@@ -152,12 +416,32 @@ export class Script implements ScriptAnalysis {
       }
     }
 
-    const comments =
-      this.ast.comments?.map(c => c.value.trim()).filter(s => pattern.test(s)) || [];
+    const comments = this.comments.filter(s => pattern.test(s));
     if (cacheKey) commentDirectiveCache.set(cacheKey, [this.cacheDigest!, comments]);
     return comments;
   }
 
+  /** Returns the comments that match `pattern`, with their locations. Unlike
+   * findMatchingComments(), this always parses the script. */
+  findMatchingCommentLocations(
+    pattern: RegExp
+  ): { text: string; location: SourceLocation }[] {
+    return findMatchingCommentLocations(this.ast, pattern);
+  }
+
+  /** The text of the comments, trimmed. */
+  private get comments(): readonly string[] {
+    if (!this._comments && !this._analysis && !this._syntaxError) {
+      // for effect: this reads the comments from the persistent cache, if they
+      // are there
+      this.readPersistentCache();
+    }
+    if (!this._comments) {
+      this._comments = this.ast.comments?.map(c => c.value.trim()) || [];
+    }
+    return this._comments;
+  }
+
   getErrors(): SyntaxError[] {
     try {
       this.analysis; // for effect
@@ -182,8 +466,51 @@ export class Script implements ScriptAnalysis {
     }
     return [];
   }
+
+  /** The relative module specifiers that the script imports, relative to the
+   * script's directory. Package names and URLs are omitted. */
+  getImportedFiles(): string[] {
+    return [...this.imports]
+      .filter(s => /^\.\.?\//.test(s))
+      .map(s => s.replace(/^\.\//, ''));
+  }
+
+  /** The paths of the local modules that the file imports, directly or
+   * indirectly. Modules that don't exist or have syntax errors are not
+   * followed. */
+  static getModuleDependencies(file: string): string[] {
+    const visited = new Set([path.normalize(file)]);
+    const dependencies: string[] = [];
+    visit(file);
+    return dependencies;
+
+    function visit(file: string) {
+      if (!fs.existsSync(file)) return;
+      let imports: string[];
+      try {
+        imports = Script.fromFile(file).getImportedFiles();
+      } catch (e) {
+        if (!(e instanceof SyntaxError)) throw e;
+        return;
+      }
+      for (const name of imports) {
+        const filePath = path.join(path.dirname(file), name);
+        if (visited.has(filePath)) continue;
+        visited.add(filePath);
+        if (fs.existsSync(filePath)) {
+          dependencies.push(filePath);
+          visit(filePath);
+        }
+      }
+    }
+  }
 }
 
+/** The default size of the in-memory caches, as measured by sizeof(). An
+ * analysis includes the locations of its references, so a 1 KB script has an
+ * analysis of around 20 KB. */
+const defaultCacheSize = 16 * 1024 * 1024;
+
 // This is a global variable rather than a class property, so that it doesn't
 // appear in the typescript exports. If it did appear in exports, this would
 // require that clients of this package use esModuleIterop to use it or a
@@ -198,14 +525,16 @@ const scriptAnalysisCache: lruCache<
     >
   ]
 > = new lruCache({
-  max: 20000,
+  max: defaultCacheSize,
   length: (value, key) => sizeof(value) + sizeof(key)
 });
 
+const scriptOptions: ScriptOptions = {};
+
 const commentDirectiveCache: lruCache<
   string,
   readonly [string, readonly string[]]
 > = new lruCache({
-  max: 20000,
+  max: defaultCacheSize,
   length: (value, key) => sizeof(value) + sizeof(key)
 });
@@ -1,6 +1,7 @@
 import fs from 'fs';
-import { readdir, readFile, writeFile } from 'fs/promises';
+import { readFile, stat, writeFile } from 'fs/promises';
 import beautify from 'js-beautify';
+import lruCache from 'lru-cache';
 import minimatch from 'minimatch';
 import { HTMLElement, parse, parse as parseHtml } from 'node-html-parser';
 import nunjucks from 'nunjucks';
@@ -12,11 +13,39 @@ import {
   asyncSome,
   capitalize,
   isHtmlPathname,
-  isScriptPathname
+  isScriptPathname,
+  versionsAreCompatible
 } from '../helpers';
 import { isDefined } from '../helpers/ts-extras';
-import { Library, p5Version } from './Library';
+import { analyzeAssetReferences, AssetIssue, AssetReference } from './asset-analysis';
+import { Cdn } from './Cdn';
+import { readDirectoryIndex } from './directory-index';
+import { analyzeGlobalScope, GlobalScopeIssue } from './global-scope-analysis';
+import { Library } from './Library';
+import { analyzeLibraries, LibraryIssue } from './library-analysis';
+import {
+  addLibraryElements,
+  librarySpec,
+  removeLibraryElements,
+  updateLibraryDirective
+} from './library-editing';
+import {
+  getDefaultP5Version,
+  getP5ImportPath,
+  isP5Version,
+  p5VersionDirectivePattern,
+  parseP5VersionFromUrl
+} from './p5-version';
 import { Script } from './Script';
+import {
+  getHeaderComment,
+  getHeaderCommentField,
+  mergeMetadata,
+  parseHtmlMetadata,
+  parseScriptMetadata,
+  SketchMetadata
+} from './sketch-metadata';
+import { getDefaultPoolSize, WorkerPool } from './worker-pool';
 
 const templateDir = path.join(__dirname, './templates');
 const defaultGenerationOptions = { draw: true, examples: true };
@@ -27,6 +56,7 @@ const defaultDirectoryExclusions = [
   'node_modules',
   'package.json',
   'package-lock.json',
+  'tsconfig.json',
 
   // Linux
   '~*', // backup file
@@ -42,6 +72,15 @@ export type SketchStructureType =
   | 'html' /** The main file is an HTML file */
   | 'script'; /** The main file is a script file */
 
+/** The error that `Sketch.removeLibrary()` throws if the sketch still needs the
+ * library. */
+export class LibraryInUseError extends Error {
+  constructor(readonly library: Library, readonly reason: string) {
+    super(`Can't remove ${library.name}: ${reason}`);
+    this.name = 'LibraryInUseError';
+  }
+}
+
 /** Sketch represents a p5.js Sketch. Is an interface to generate sketch files,
  *  find associated files, infer libraries, and scan directories for sketches that
  * they contain.
@@ -58,6 +97,11 @@ export abstract class Sketch {
   public readonly description?: string;
   protected readonly _title?: string;
   protected _name?: string;
+  // The memoized metadata and asset issues. These are ECMAScript private
+  // fields, instead of TypeScript ones, so that JSON.stringify() doesn't
+  // include them.
+  #metadata?: SketchMetadata;
+  #assetIssues?: readonly AssetIssue[];
 
   protected constructor(
     dir: string,
@@ -88,9 +132,7 @@ export abstract class Sketch {
       );
     } else if (isScriptPathname(mainFile)) {
       if (mainFile && options.scriptFile) {
-        throw new Error(
-          `Cannot specify both a JavaScript mainFile and options.scriptFile`
-        );
+        throw new Error(`Cannot specify both a script mainFile and options.scriptFile`);
       }
       return new ScriptSketch(path.dirname(mainFile), path.basename(mainFile), options);
     } else {
@@ -106,7 +148,7 @@ export abstract class Sketch {
     return HtmlSketch.fromFile(htmlFile);
   }
 
-  /** Create a sketch from a JavaScript file.
+  /** Create a sketch from a JavaScript or TypeScript file.
    *
    * @category Sketch creation
    */
@@ -160,12 +202,17 @@ export abstract class Sketch {
     const sketches: Sketch[] = [];
 
     const exclusions = options?.exclusions || defaultDirectoryExclusions;
-    let files = (await readdir(dir)).filter(
-      file => !exclusions.some(pattern => minimatch(file, pattern))
+    const entries = ((await readDirectoryIndex(dir)) || []).filter(
+      entry => !exclusions.some(pattern => minimatch(entry.name, pattern))
     );
+    let files = entries.map(entry => entry.name);
 
     // collect directory sketches, and remove them from the list of files
+    const subdirs = new Set(
+      entries.filter(entry => entry.isDirectory).map(entry => entry.name)
+    );
     files = await asyncFilter(files, async name => {
+      if (!subdirs.has(name)) return true;
       const dirPath = path.join(dir, name);
       const sketch = await Sketch.isSketchDir(dirPath, { exclusions });
       if (sketch) {
@@ -175,10 +222,14 @@ export abstract class Sketch {
       return !sketch;
     });
 
+    const classifications = await classifyFiles(
+      files.filter(name => !subdirs.has(name)).map(name => path.join(dir, name))
+    );
+
     // collect HTML sketches
     for (const file of files) {
       const filePath = path.join(dir, file);
-      if (await Sketch.isSketchHtmlFile(filePath)) {
+      if (classifications.get(filePath)?.html) {
         sketches.push(await Sketch.fromHtmlFile(filePath));
       }
     }
@@ -186,7 +237,7 @@ export abstract class Sketch {
     // collect JS sketches
     for (const file of removeProjectFiles(files)) {
       const filePath = path.join(dir, file);
-      if (await Sketch.isSketchScriptFile(filePath)) {
+      if (classifications.get(filePath)?.script) {
         sketches.push(await Sketch.fromScriptFile(filePath));
       }
     }
@@ -214,7 +265,9 @@ export abstract class Sketch {
 
   /** Tests whether a file is a JavaScript sketch file. It is recognized as a
    * sketch file if it includes a definition of the `setup()` function and a
-   * call to the p5.js `createCanvas()`.
+   * call to the p5.js `createCanvas()`; or, for an instance-mode sketch, if a
+   * function that is passed to `new p5()` assigns `setup` to the p5 instance
+   * and calls its `createCanvas()` method.
    *
    * @category Sketch detection
    */
@@ -247,19 +300,21 @@ export abstract class Sketch {
     // efficient. This is especially important in the context of the VS Code
     // extension.
 
-    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    const entries = await readDirectoryIndex(dir);
+    if (!entries) {
       return null;
     }
-
-    const files = await fs
-      .readdirSync(dir)
-      .filter(file => !exclusions.some(pattern => minimatch(file, pattern)))
-      .map(file => path.join(dir, file));
+    const files = entries
+      .filter(entry => !entry.isDirectory)
+      .filter(entry => !exclusions.some(pattern => minimatch(entry.name, pattern)))
+      .map(entry => path.join(dir, entry.name));
+    const classifications = await classifyFiles(files);
+    const isHtmlSketch = (file: string) => classifications.get(file)?.html;
+    const isScriptSketch = (file: string) => classifications.get(file)?.script;
 
     // is there an index.html file?
-    const indexFiles = await asyncFilter(
-      files.filter(file => /^index\.html?$/i.test(path.basename(file))),
-      Sketch.isSketchHtmlFile
+    const indexFiles = files.filter(
+      file => /^index\.html?$/i.test(path.basename(file)) && isHtmlSketch(file)
     );
     if (indexFiles.length > 1) {
       return null;
@@ -267,11 +322,7 @@ export abstract class Sketch {
 
     // are there other HTML sketch files?
     const [indexFile] = indexFiles;
-    const otherHtmlSketches = await asyncFilter(
-      files.filter(file => file !== indexFile),
-      Sketch.isSketchHtmlFile
-    );
-    if (otherHtmlSketches.length > 0) {
+    if (files.some(file => file !== indexFile && isHtmlSketch(file))) {
       return null;
     }
 
@@ -280,9 +331,8 @@ export abstract class Sketch {
     const associatedScripts = new Set(
       sketch ? sketch.files.map(file => path.join(sketch.dir, file)) : []
     );
-    const scriptSketches = await asyncFilter(
-      files.filter(file => !associatedScripts.has(file)),
-      Sketch.isSketchScriptFile
+    const scriptSketches = files.filter(
+      file => !associatedScripts.has(file) && isScriptSketch(file)
     );
     if (indexFiles.length + scriptSketches.length !== 1) {
       return null;
@@ -303,17 +353,17 @@ export abstract class Sketch {
       if (depth <= 0) {
         return false;
       }
-      const files = fs
-        .readdirSync(dir)
-        .filter(file => !exclusions.some(pattern => minimatch(file, pattern)))
-        .map(file => path.join(dir, file));
-      return asyncSome(files, file =>
-        fs.statSync(file).isDirectory()
+      const entries = ((await readDirectoryIndex(dir)) || []).filter(
+        entry => !exclusions.some(pattern => minimatch(entry.name, pattern))
+      );
+      return asyncSome(entries, entry => {
+        const file = path.join(dir, entry.name);
+        return entry.isDirectory
           ? subdirectoriesContainSketchFiles(file, depth - 1)
           : includeFiles
           ? Sketch.isSketchFile(file)
-          : Promise.resolve(false)
-      );
+          : Promise.resolve(false);
+      });
     }
   }
 
@@ -344,7 +394,7 @@ export abstract class Sketch {
   get name(): string {
     return (
       this._name ||
-      this.mainFile.replace(/\.(html?|js)$/i, '').replace(/\s*[-_]\s*/g, ' ')
+      this.mainFile.replace(/\.(html?|js|ts)$/i, '').replace(/\s*[-_]\s*/g, ' ')
     );
   }
 
@@ -368,7 +418,7 @@ export abstract class Sketch {
     // otherwise, return the basename of either the HTML file or the JavaScript
     // file
     const basename = path.basename(this.mainFile);
-    return capitalize(basename.replace(/\.(html?|js)$/i, '')).replace(
+    return capitalize(basename.replace(/\.(html?|js|ts)$/i, '')).replace(
       /\s*[-_]\s*/g,
       ' '
     );
@@ -379,6 +429,35 @@ export abstract class Sketch {
     return null;
   }
 
+  /** The sketch's author, tags, license, thumbnail, and creation date. An HTML
+   * sketch reads these from the `<meta>` elements of its HTML file, and a
+   * JavaScript sketch reads them from fields such as `Author:` in the header
+   * comment of its script. An HTML sketch also uses the header comment of its
+   * script for the properties that its HTML file doesn't specify. See
+   * `SketchMetadata`. The files are read the first time that this is used.
+   *
+   * @category Properties
+   */
+  get metadata(): SketchMetadata {
+    if (!this.#metadata) {
+      this.#metadata = this.getMetadataFromFiles();
+    }
+    return this.#metadata;
+  }
+
+  /** The thumbnail, if it is a file in the sketch directory. */
+  protected getThumbnailFiles(): string[] {
+    const { thumbnail } = this.metadata;
+    if (!thumbnail || /^([a-z]+:|\/)/i.test(thumbnail)) return [];
+    const file = thumbnail.replace(/^\.\//, '');
+    return fs.existsSync(path.join(this.dir, file)) ? [file] : [];
+  }
+
+  protected getMetadataFromFiles(): SketchMetadata {
+    if (!this.scriptFile || !fs.existsSync(this.scriptFilePath)) return { tags: [] };
+    return parseScriptMetadata(fs.readFileSync(this.scriptFilePath, 'utf-8'));
+  }
+
   /** The HTML file (for an HTML sketch); any JavaScript files; any files that
    * the HTML file includes; and any files that the JavaScript files include,
    * to the extent that this can be determined by static inspection.
@@ -387,6 +466,36 @@ export abstract class Sketch {
    */
   abstract get files(): readonly string[];
 
+  /** Problems with the way that the sketch's scripts share the global scope:
+   * symbols that a script uses before the script that defines them is loaded;
+   * globals that are defined in more than one script; and p5.js functions such
+   * as `setup()` that are defined more than once.
+   *
+   * A script sketch has a single script, so this is always empty for it.
+   */
+  get globalScopeIssues(): readonly GlobalScopeIssue[] {
+    return [];
+  }
+
+  /** References to files that don't exist, or whose names differ in case from
+   * the files on disk: for example, `loadImage('Cat.PNG')` when the file is
+   * `cat.png`. A sketch with a case mismatch works on a case-insensitive file
+   * system, such as the macOS default, but not when it is deployed to a
+   * case-sensitive one.
+   *
+   * The references are the paths that the scripts pass to `loadImage()`,
+   * etc.; and, for an HTML sketch, the HTML file's `<script src>` and `<link
+   * href>` attributes.
+   */
+  get assetIssues(): readonly AssetIssue[] {
+    if (!this.#assetIssues) {
+      this.#assetIssues = analyzeAssetReferences(this.dir, this.getAssetReferences());
+    }
+    return this.#assetIssues;
+  }
+
+  protected abstract getAssetReferences(): AssetReference[];
+
   //#endregion
 
   //#region libraries
@@ -401,12 +510,152 @@ export abstract class Sketch {
     return this.impliedLibraries();
   }
 
-  protected impliedLibraries(): readonly Library[] {
-    return Library.inferFromScripts(
-      this.files
-        .filter(name => isScriptPathname(name))
-        .map(name => path.join(this.dir, name))
+  /** Problems with the libraries that the sketch uses: libraries that the
+   * sketch pins to a version that is older than the version that the library
+   * registry recommends; deprecated libraries; libraries that don't work with
+   * the sketch's p5.js version; and references to names that more than one
+   * library defines. An HTML sketch pins the version that its `<script>` tag
+   * loads; a script can pin a version with a comment directive such as
+   * `// library: ml5@0.12.2`.
+   *
+   * @category Libraries
+   */
+  get libraryIssues(): readonly LibraryIssue[] {
+    return analyzeLibraries(this.libraries, {
+      ambiguities: this.findAmbiguousLibraryReferences(),
+      p5Version: this.p5Version
+    });
+  }
+
+  /** The libraries that the sketch uses, and the reasons that it uses them.
+   * For a JavaScript sketch, these are the globals and `p5.` properties that
+   * its scripts reference, and the comment directives that name a library,
+   * with their locations. For an HTML sketch, they are the `<script>` elements
+   * that load the library.
+   *
+   * @category Libraries
+   */
+  explainLibraries(): readonly Library.Inference[] {
+    return this.explainImpliedLibraries();
+  }
+
+  /** Adds `library` to the sketch. An HTML sketch gets `<script>` elements
+   * that load the library and the libraries that it requires; a JavaScript
+   * sketch gets a `// library:` comment directive that names it. Returns false,
+   * without changing any files, if the sketch already uses the library at the
+   * version that `library` pins, if any.
+   *
+   * @category Libraries
+   */
+  abstract addLibrary(library: Library): Promise<boolean>;
+
+  /** Removes `library` from the sketch. This throws a LibraryInUseError if
+   * the sketch's scripts reference names that the library defines, or another
+   * of its libraries requires it, unless `force` is true. Forcing the removal
+   * from a JavaScript sketch adds a comment directive, such as `// library:
+   * -p5.play`, that excludes the library. Returns false if the sketch doesn't
+   * use the library.
+   *
+   * @category Libraries
+   */
+  abstract removeLibrary(
+    library: Library,
+    options?: { force?: boolean }
+  ): Promise<boolean>;
+
+  /** Returns true if the sketch uses `library`, at the version that `library`
+   * pins if it pins one. */
+  protected hasLibrary(library: Library): boolean {
+    const current = this.libraries.find(lib => lib.name === library.name);
+    return Boolean(
+      current && (!library.version || current.version === library.version)
+    );
+  }
+
+  /** Describes why the sketch still needs `library`, or returns null if it
+   * doesn't. */
+  protected explainLibraryDependents(library: Library): string | null {
+    const reasons =
+      this.explainImpliedLibraries().find(i => i.library.name === library.name)
+        ?.reasons || [];
+    const names = reasons.flatMap(reason =>
+      reason.type === 'global'
+        ? [reason.name]
+        : reason.type === 'p5Property'
+        ? [`p5.${reason.name}`]
+        : []
+    );
+    if (names.length > 0) {
+      return `${this.mainFile} references ${names.join(', ')}, which ${
+        library.name
+      } defines`;
+    }
+    const dependents = this.libraries.filter(lib =>
+      lib.requires?.includes(library.name)
     );
+    if (dependents.length > 0) {
+      return `${dependents.map(lib => lib.name).join(', ')} requires ${library.name}`;
+    }
+    return null;
+  }
+
+  protected impliedLibraries(): readonly Library[] {
+    return this.explainImpliedLibraries().map(({ library }) => library);
+  }
+
+  /** Names that the sketch's scripts reference, that more than one library
+   * defines, and that library inference can't attribute to one of them. An HTML
+   * sketch names its libraries explicitly, so it has none. */
+  protected findAmbiguousLibraryReferences(): readonly Library.Ambiguity[] {
+    return Library.findAmbiguousReferences(this.libraryScriptPaths);
+  }
+
+  protected explainImpliedLibraries(): readonly Library.Inference[] {
+    return Library.explainInferenceFromScripts(this.libraryScriptPaths);
+  }
+
+  protected get libraryScriptPaths(): string[] {
+    return this.files
+      .filter(name => isScriptPathname(name))
+      .map(name => path.join(this.dir, name));
+  }
+
+  //#endregion
+
+  //#region p5.js version
+
+  /** The version of p5.js that the sketch uses. For an HTML sketch that loads
+   * p5.js from a CDN, this is the version that it loads. Otherwise, it is the
+   * version that a `// p5-version: 1.9.0` comment in one of the sketch's
+   * scripts selects; or, if there isn't one, the default version.
+   *
+   * @category p5.js version
+   */
+  get p5Version(): string {
+    return this.getDeclaredP5Version() || getDefaultP5Version();
+  }
+
+  /** The p5.js version that the sketch specifies, or null if it doesn't
+   * specify one. */
+  protected getDeclaredP5Version(): string | null {
+    return this.getP5VersionDirective();
+  }
+
+  /** The version in the first `p5-version` comment directive in the sketch's
+   * scripts, or null if there isn't one. */
+  protected getP5VersionDirective(): string | null {
+    for (const file of this.files.filter(isScriptPathname)) {
+      const filePath = path.join(this.dir, file);
+      if (!fs.existsSync(filePath)) continue;
+      const script = Script.fromFile(filePath);
+      if (script.getErrors().length > 0) continue;
+      const version = script
+        .findMatchingComments(p5VersionDirectivePattern)
+        .map(comment => comment.match(p5VersionDirectivePattern)![1])
+        .find(isP5Version);
+      if (version) return version;
+    }
+    return null;
   }
 
   //#endregion
@@ -465,11 +714,14 @@ export abstract class Sketch {
     options: Record<string, unknown>
   ): Promise<string> {
     const libraries = this.libraries;
+    const p5Version = this.p5Version;
     const data = {
       title: this.title,
       libraries,
       p5Version,
+      p5ImportPath: getP5ImportPath(p5Version),
       scriptFile: this.scriptFile,
+      scriptType: this.scriptIsModule() ? 'module' : undefined,
       ...defaultGenerationOptions,
       ...options
     };
@@ -491,6 +743,17 @@ export abstract class Sketch {
     throw new Error(`Unknown template extension: ${templatePath}`);
   }
 
+  private scriptIsModule(): boolean {
+    const filePath = this.scriptFilePath;
+    if (!fs.existsSync(filePath)) return false;
+    try {
+      return Script.fromFile(filePath).isModule;
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e;
+      return false;
+    }
+  }
+
   public async getHtmlContent(): Promise<string> {
     return this.htmlFilePath
       ? await readFile(this.htmlFilePath, 'utf-8')
@@ -567,7 +830,12 @@ export class HtmlSketch extends Sketch {
   }
 
   get files(): readonly string[] {
-    const files = [this.htmlFile, this.scriptFile, ...this.getAssociatedFiles()];
+    const files = [
+      this.htmlFile,
+      this.scriptFile,
+      ...this.getAssociatedFiles(),
+      ...this.getThumbnailFiles()
+    ];
     return [...new Set(files)];
   }
 
@@ -575,16 +843,140 @@ export class HtmlSketch extends Sketch {
     return this.explicitLibraries();
   }
 
+  protected getDeclaredP5Version(): string | null {
+    return this.getLoadedP5Version() || this.getP5VersionDirective();
+  }
+
+  /** The version of p5.js that the HTML file loads from a CDN, or null if it
+   * doesn't load one. */
+  private getLoadedP5Version(): string | null {
+    const htmlFilePath = this.htmlFilePath!;
+    if (!fs.existsSync(htmlFilePath)) return null;
+    const htmlRoot = parseHtml(fs.readFileSync(htmlFilePath, 'utf-8'));
+    return (
+      htmlRoot
+        .querySelectorAll('script[src]')
+        .map(e => parseP5VersionFromUrl(e.attributes.src))
+        .find(isDefined) || null
+    );
+  }
+
+  /** Treats the local scripts that the HTML file loads as a single global
+   * scope, in the order that they are loaded. ES modules are omitted, since
+   * their top-level definitions aren't globals. So are scripts that are
+   * missing or that have syntax errors. */
+  get globalScopeIssues(): readonly GlobalScopeIssue[] {
+    const htmlFilePath = this.htmlFilePath!;
+    if (!fs.existsSync(htmlFilePath)) return [];
+    const htmlRoot = parseHtml(fs.readFileSync(htmlFilePath, 'utf-8'));
+    const scriptFiles = htmlRoot
+      .querySelectorAll('script[src]')
+      .filter(e => e.attributes.type !== 'module')
+      .map(e => e.attributes.src.replace(/^\.\//, ''))
+      .filter(s => !s.match(/https?:/));
+    const scripts = [...new Set(scriptFiles)]
+      .map(file => {
+        const filePath = path.join(this.dir, file);
+        if (!isScriptPathname(file) || !fs.existsSync(filePath)) return null;
+        try {
+          const script = Script.fromFile(filePath);
+          return script.isModule ? null : { file, script };
+        } catch (e) {
+          if (!(e instanceof SyntaxError)) throw e;
+          return null;
+        }
+      })
+      .filter(isDefined);
+    return analyzeGlobalScope(scripts);
+  }
+
+  protected getAssetReferences(): AssetReference[] {
+    const htmlFilePath = this.htmlFilePath!;
+    if (!fs.existsSync(htmlFilePath)) return [];
+    const htmlRoot = parseHtml(fs.readFileSync(htmlFilePath, 'utf-8'));
+    const scriptFiles = withModuleDependencies(
+      this.dir,
+      this.getLocalScriptFiles(htmlRoot)
+    );
+    return [
+      ...htmlRoot
+        .querySelectorAll('script[src]')
+        .map(e => ({ file: e.attributes.src, referencedBy: this.htmlFile })),
+      ...htmlRoot
+        .querySelectorAll('link[href]')
+        .map(e => ({ file: e.attributes.href, referencedBy: this.htmlFile })),
+      ...getScriptAssetReferences(this.dir, scriptFiles)
+    ];
+  }
+
+  explainLibraries(): readonly Library.Inference[] {
+    return this.explainExplicitLibraries();
+  }
+
+  protected findAmbiguousLibraryReferences(): readonly Library.Ambiguity[] {
+    return [];
+  }
+
+  async addLibrary(library: Library): Promise<boolean> {
+    if (this.hasLibrary(library)) return false;
+    const htmlFilePath = this.htmlFilePath!;
+    let html = await readFile(htmlFilePath, 'utf-8');
+    const { dir, libraries } = this;
+    const current = libraries.find(lib => lib.name === library.name);
+    if (current) {
+      // replace the script elements that load a different version
+      html = removeLibraryElements(html, current, { dir });
+    }
+    const added = Library.withDependencies([library], { dir }).filter(
+      lib => lib === library || !libraries.some(l => l.name === lib.name)
+    );
+    html = addLibraryElements(html, added, { dir, p5Version: this.p5Version });
+    await writeFile(htmlFilePath, html);
+    return true;
+  }
+
+  async removeLibrary(
+    library: Library,
+    { force = false }: { force?: boolean } = {}
+  ): Promise<boolean> {
+    if (!this.libraries.some(lib => lib.name === library.name)) return false;
+    const dependents = this.explainLibraryDependents(library);
+    if (dependents && !force) {
+      throw new LibraryInUseError(library, dependents);
+    }
+    const htmlFilePath = this.htmlFilePath!;
+    const html = await readFile(htmlFilePath, 'utf-8');
+    await writeFile(
+      htmlFilePath,
+      removeLibraryElements(html, library, { dir: this.dir })
+    );
+    return true;
+  }
+
   private explicitLibraries(): Library[] {
+    return this.explainExplicitLibraries().map(({ library }) => library);
+  }
+
+  private explainExplicitLibraries(): Library.Inference[] {
     const htmlFilePath = this.htmlFilePath!;
     if (!fs.existsSync(htmlFilePath)) return [];
     const content = fs.readFileSync(htmlFilePath, 'utf-8');
     const htmlRoot = parse(content);
-    const libs: (Library | null)[] = htmlRoot
-      .querySelectorAll('script[src]')
-      .map(node => node.attributes.src)
-      .map(importPath => Library.find({ importPath }));
-    return libs.filter(isDefined);
+    const inferences: { library: Library; reasons: Library.InferenceReason[] }[] = [];
+    for (const node of htmlRoot.querySelectorAll('script[src]')) {
+      const importPath = node.attributes.src;
+      const library = Library.fromImportPath(importPath, { dir: this.dir });
+      if (!library) continue;
+      const reason = { type: 'scriptTag' as const, importPath, file: this.htmlFile };
+      // A library's companion scripts can match it too. List it once.
+      const inference = inferences.find(i => i.library.name === library.name);
+      if (inference) {
+        inference.reasons.push(reason);
+      } else {
+        inferences.push({ library, reasons: [reason] });
+      }
+    }
+    return inferences;
   }
 
   protected getTitleFromFile(): string | null {
@@ -598,14 +990,25 @@ export class HtmlSketch extends Sketch {
     return null;
   }
 
+  protected getMetadataFromFiles(): SketchMetadata {
+    const scriptMetadata = super.getMetadataFromFiles();
+    const filePath = this.htmlFilePath!;
+    if (!fs.existsSync(filePath)) return scriptMetadata;
+    const htmlRoot = parseHtml(fs.readFileSync(filePath, 'utf-8'));
+    return mergeMetadata(parseHtmlMetadata(htmlRoot), scriptMetadata);
+  }
+
   private getAssociatedFiles() {
     const htmlFile = this.htmlFilePath!;
     if (fs.existsSync(htmlFile)) {
       const html = fs.readFileSync(htmlFile, 'utf-8');
       const htmlRoot = parseHtml(html);
-      const scriptFiles = this.getLocalScriptFiles(htmlRoot);
+      const scriptFiles = withModuleDependencies(
+        this.dir,
+        this.getLocalScriptFiles(htmlRoot)
+      );
       return [
-        ...this.getLocalScriptFiles(htmlRoot),
+        ...scriptFiles,
         ...htmlRoot
           .querySelectorAll('head link[href]')
           .map(e => e.attributes.href.replace(/^\.\//, ''))
@@ -695,6 +1098,34 @@ export class HtmlSketch extends Sketch {
             }: ${scriptNotHtml.map(lib => lib.name)}`
           );
         }
+        // check that the script would load the library versions that the HTML
+        // file loads
+        const scriptP5Version = this.getP5VersionDirective() || getDefaultP5Version();
+        const versionMismatches = htmlLibs.filter(lib => {
+          if (!lib.version) return false;
+          const scriptLib = scriptLibs.find(s => s.name === lib.name)!;
+          const scriptVersion =
+            scriptLib.version ||
+            Cdn.parseUrl(scriptLib.getImportPath(scriptP5Version) || '')?.version;
+          return !scriptVersion || !versionsAreCompatible(lib.version, scriptVersion);
+        });
+        if (versionMismatches.length) {
+          throw new Error(
+            `${this.htmlFile} loads library versions that ${
+              this.scriptFile
+            } does not pin: ${versionMismatches.map(
+              lib => `${lib.name}@${lib.version}`
+            )}. Add a "// library:" comment to ${this.scriptFile}.`
+          );
+        }
+
+        // check that the script sketch would use the same p5.js version
+        const htmlVersion = this.getLoadedP5Version();
+        if (htmlVersion && !versionsAreCompatible(htmlVersion, scriptP5Version)) {
+          throw new Error(
+            `${this.htmlFile} loads p5.js ${htmlVersion}, but ${this.scriptFile} would use p5.js ${scriptP5Version}. Add a "// p5-version: ${htmlVersion}" comment to ${this.scriptFile}.`
+          );
+        }
 
         fs.unlinkSync(htmlPath);
       }
@@ -723,13 +1154,19 @@ export class ScriptSketch extends Sketch {
     }
 
     try {
-      const { defs, refs } = Script.fromFile(file);
-      return defs.get('setup') === 'function' && refs.has('createCanvas');
+      const { defs, refs, instanceDefs, instanceRefs } = Script.fromFile(file);
+      return (
+        (defs.get('setup') === 'function' && refs.has('createCanvas')) ||
+        (instanceDefs.get('setup') === 'function' && instanceRefs.has('createCanvas'))
+      );
     } catch (e) {
       if (e instanceof SyntaxError) {
         const source = await readFile(file, 'utf-8');
         return (
-          /function\s+(setup)\b/.test(source) && /\bcreateCanvas\s*\(/.test(source)
+          (/function\s+(setup)\b/.test(source) && /\bcreateCanvas\s*\(/.test(source)) ||
+          (/\bnew\s+p5\s*\(/.test(source) &&
+            /\.setup\s*=/.test(source) &&
+            /\.createCanvas\s*\(/.test(source))
         );
       }
       throw e;
@@ -749,18 +1186,72 @@ export class ScriptSketch extends Sketch {
   }
 
   get files(): readonly string[] {
+    const scriptFiles = withModuleDependencies(this.dir, [this.scriptFile]);
     const files = [
-      this.scriptFile,
-      ...Script.getAssociatedFiles(path.join(this.dir, this.scriptFile))
+      ...scriptFiles,
+      ...scriptFiles.flatMap(name =>
+        Script.getAssociatedFiles(path.join(this.dir, name))
+      ),
+      ...this.getThumbnailFiles()
     ];
     return [...new Set(files)];
   }
 
+  protected getAssetReferences(): AssetReference[] {
+    return getScriptAssetReferences(
+      this.dir,
+      withModuleDependencies(this.dir, [this.scriptFile])
+    );
+  }
+
+  async addLibrary(library: Library): Promise<boolean> {
+    if (this.hasLibrary(library)) return false;
+    await this.updateLibraryDirectives(
+      library,
+      librarySpec(library, { dir: this.dir })
+    );
+    return true;
+  }
+
+  async removeLibrary(
+    library: Library,
+    { force = false }: { force?: boolean } = {}
+  ): Promise<boolean> {
+    if (!this.libraries.some(lib => lib.name === library.name)) return false;
+    const dependents = this.explainLibraryDependents(library);
+    if (dependents && !force) {
+      throw new LibraryInUseError(library, dependents);
+    }
+    // A library that the scripts still imply needs an exclusion. One that only
+    // a directive names needs the directive to stop naming it.
+    const spec = dependents
+      ? librarySpec(library, { dir: this.dir, exclude: true })
+      : null;
+    await this.updateLibraryDirectives(library, spec);
+    return true;
+  }
+
+  /** Updates the `// library:` comment directives in the sketch's scripts, so
+   * that the main script names `library` with `spec`, and the others don't
+   * name it. */
+  private async updateLibraryDirectives(library: Library, spec: string | null) {
+    for (const file of this.libraryScriptPaths) {
+      const source = await readFile(file, 'utf-8');
+      const updated = updateLibraryDirective(
+        source,
+        library,
+        file === this.scriptFilePath ? spec : null,
+        { dir: this.dir }
+      );
+      if (updated !== source) await writeFile(file, updated);
+    }
+  }
+
   public async convert(options: { type: SketchStructureType }): Promise<void> {
     switch (options.type) {
       case 'html': {
         // javascript -> html
-        const htmlName = this.mainFile.replace(/\.js$/, '') + '.html';
+        const htmlName = this.mainFile.replace(/\.(js|ts)$/i, '') + '.html';
         const htmlPath = path.join(this.dir, htmlName);
         if (fs.existsSync(htmlPath)) {
           throw new Error(`${htmlPath} already exists`);
@@ -771,19 +1262,119 @@ export class ScriptSketch extends Sketch {
   }
 
   private static getDescriptionFromScript(content: string) {
-    let text;
-    let m = content.match(/\n*((?:\/\/.*\n)+)/);
-    if (m) {
-      text = m[1].replace(/^\/\//gm, '').trim();
-    }
-    m = content.match(/\n*\/\*+(.+?)\*\//s);
-    if (m) {
-      text = m[1].replace(/^\s*\**/gm, '').trim();
+    const comment = getHeaderComment(content);
+    return comment ? getHeaderCommentField(comment, 'description') : undefined;
+  }
+}
+
+type FileClassification = { html: boolean; script: boolean };
+
+/** Memoized file classifications, by absolute path. An entry is reused until
+ * the file's size or modification time changes. */
+const classificationCache = new lruCache<
+  string,
+  { mtimeMs: number; size: number; classification: FileClassification }
+>({ max: 20000 });
+
+/** Classifying this many script files in one batch is worth the cost of
+ * starting worker threads. */
+const minPooledScriptFiles = 8;
+
+let analysisPool: WorkerPool<string, boolean> | null | undefined;
+
+/** Tests which files are HTML sketch files, and which are script sketch files.
+ * Returns a map from each file to its classification.
+ *
+ * Parsing script files dominates this. A large batch of them is divided among
+ * a pool of worker threads. Since the workers write their analyses to the
+ * persistent cache, the main thread doesn't parse the files again when it
+ * analyzes the sketches.
+ */
+async function classifyFiles(
+  files: readonly string[]
+): Promise<Map<string, FileClassification>> {
+  const results = new Map<string, FileClassification>();
+  const infos = await Promise.all(files.map(file => stat(file).catch(() => null)));
+  const uncached: { file: string; key: string; mtimeMs: number; size: number }[] = [];
+  files.forEach((file, i) => {
+    const info = infos[i];
+    if (!info || info.isDirectory()) {
+      results.set(file, { html: false, script: false });
+      return;
     }
-    m = text?.match(/^Description:\s*(.+)/s) || null;
-    if (m) {
-      return m[1].replace(/\n\n.+/, '');
+    const key = path.resolve(file);
+    const cached = classificationCache.get(key);
+    if (cached && cached.mtimeMs === info.mtimeMs && cached.size === info.size) {
+      results.set(file, cached.classification);
+    } else {
+      uncached.push({ file, key, mtimeMs: info.mtimeMs, size: info.size });
     }
-    return undefined;
+  });
+
+  const scriptFiles = uncached.map(({ file }) => file).filter(isScriptPathname);
+  const pool = scriptFiles.length >= minPooledScriptFiles ? getAnalysisPool() : null;
+  const scriptSketches = new Set<string>();
+  await Promise.all(
+    scriptFiles.map(async file => {
+      const isSketch = pool
+        ? await pool.run(file).catch(() => ScriptSketch.isSketchScriptFile(file))
+        : await ScriptSketch.isSketchScriptFile(file);
+      if (isSketch) scriptSketches.add(file);
+    })
+  );
+
+  for (const { file, key, mtimeMs, size } of uncached) {
+    const classification = {
+      html: await HtmlSketch.isSketchHtmlFile(file),
+      script: scriptSketches.has(file)
+    };
+    classificationCache.set(key, { mtimeMs, size, classification });
+    results.set(file, classification);
   }
+  return results;
+}
+
+function getAnalysisPool(): WorkerPool<string, boolean> | null {
+  if (analysisPool === undefined) {
+    // Run from the TypeScript sources, a worker has to compile the package
+    // before it can do anything. Only do this if workers are requested.
+    const ext = path.extname(__filename);
+    const size =
+      ext === '.ts' && process.env.P5_ANALYSIS_WORKERS === undefined
+        ? 0
+        : getDefaultPoolSize();
+    analysisPool =
+      size > 0
+        ? new WorkerPool(
+            path.join(__dirname, `analysis-worker${ext}`),
+            size,
+            () => Script.options
+          )
+        : null;
+  }
+  return analysisPool;
+}
+
+/** The files that the scripts load with `loadImage()`, etc. */
+function getScriptAssetReferences(
+  dir: string,
+  scriptFiles: readonly string[]
+): AssetReference[] {
+  return scriptFiles.flatMap(name =>
+    Script.getAssociatedFiles(path.join(dir, name)).map(file => ({
+      file,
+      referencedBy: name
+    }))
+  );
+}
+
+/** Adds the local modules that the scripts import, directly or indirectly, to
+ * the list of scripts. File names are relative to dir. */
+function withModuleDependencies(dir: string, scriptFiles: readonly string[]): string[] {
+  const dependencies = scriptFiles.flatMap(name =>
+    Script.getModuleDependencies(path.join(dir, name)).map(file =>
+      path.relative(dir, file)
+    )
+  );
+  return [...new Set([...scriptFiles, ...dependencies])];
 }
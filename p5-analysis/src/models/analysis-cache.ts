@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { threadId } from 'worker_threads';
+
+/** A persistent, on-disk cache of script analyses. This lets a command-line
+ * invocation reuse the work of previous invocations, instead of parsing every
+ * file again.
+ *
+ * An entry is keyed by the content of the script, its filename, and the
+ * version of the analyzer. Editing a file, or installing a version of this
+ * package with a different analyzer, invalidates its entries. Entries for
+ * other analyzer versions are removed the first time that this process writes
+ * to the cache.
+ *
+ * The cache is stored in a `p5-analysis-cache` subdirectory of `~/.cache`.
+ * The `P5_ANALYSIS_CACHE_DIR` environment variable names a different parent
+ * directory. Only this subdirectory is ever pruned or removed, so the parent
+ * can be shared with other files. Setting `P5_ANALYSIS_CACHE=0` disables the
+ * cache.
+ *
+ * Values are JSON, extended to represent Maps and Sets. Errors that reading or
+ * writing the cache raises are ignored: the cache is an optimization, and the
+ * analysis can always be recomputed.
+ */
+
+/** The analyzer version. This combines the package version with a digest of
+ * the analyzer source, so that a change to the analyzer invalidates the cache
+ * during development too, and with the versions of the Babel packages that
+ * parse and traverse the scripts, which can resolve to different versions
+ * without a change to this package. */
+const analyzerVersion = (() => {
+  const hash = crypto.createHash('sha256');
+  const pkg = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf-8')
+  );
+  hash.update(pkg.version);
+  for (const module of ['./Script', './script-analysis']) {
+    hash.update(fs.readFileSync(require.resolve(module)));
+  }
+  for (const dependency of ['@babel/parser', '@babel/traverse']) {
+    const { version } = JSON.parse(
+      fs.readFileSync(require.resolve(`${dependency}/package.json`), 'utf-8')
+    );
+    hash.update(`${dependency}@${version}`);
+  }
+  return hash.digest('hex').slice(0, 16);
+})();
+
+/** The format of an analyzer version, and therefore of the names of the
+ * directories in the cache. */
+const analyzerVersionPattern = /^[0-9a-f]{16}$/;
+
+let enabled = !/^(0|false|no|off)$/i.test(process.env.P5_ANALYSIS_CACHE || '');
+let prunedCacheDir: string | null = null;
+
+/** The directory that contains the cache. */
+export function getAnalysisCacheDir(): string {
+  return path.join(
+    process.env.P5_ANALYSIS_CACHE_DIR || path.join(os.homedir(), '.cache'),
+    'p5-analysis-cache'
+  );
+}
+
+/** Enables or disables the persistent cache for this process. This overrides
+ * the `P5_ANALYSIS_CACHE` environment variable. */
+export function setAnalysisCacheEnabled(value: boolean): void {
+  enabled = value;
+}
+
+/** Removes every entry from the cache. */
+export function clearAnalysisCache(): void {
+  fs.rmSync(getAnalysisCacheDir(), { recursive: true, force: true });
+}
+
+/** The cache key for a script. */
+export function getAnalysisCacheKey(source: string, filename?: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ filename, source }))
+    .digest('hex');
+}
+
+/** Returns the cached value for a key, or undefined if there isn't one. */
+export function readAnalysisCache<T>(key: string): T | undefined {
+  if (!enabled) return undefined;
+  const file = getEntryPath(key);
+  try {
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, 'utf-8'), reviver) as T;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export function writeAnalysisCache<T>(key: string, value: T): void {
+  if (!enabled) return;
+  const file = getEntryPath(key);
+  try {
+    pruneOtherVersions();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temporary file and rename it, so that a concurrent reader
+    // never sees a partial entry. Worker threads share the process id, so the
+    // name includes the thread id too.
+    const tmpFile = `${file}.${process.pid}.${threadId}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(value, replacer));
+    fs.renameSync(tmpFile, file);
+  } catch (e) {
+    // e.g. the cache directory isn't writable. Don't try again.
+    enabled = false;
+  }
+}
+
+function getEntryPath(key: string): string {
+  return path.join(getAnalysisCacheDir(), analyzerVersion, key.slice(0, 2), key);
+}
+
+/** Removes the entries that were written by other analyzer versions. */
+function pruneOtherVersions() {
+  const cacheDir = getAnalysisCacheDir();
+  if (prunedCacheDir === cacheDir) return;
+  prunedCacheDir = cacheDir;
+  if (!fs.existsSync(cacheDir)) return;
+  for (const name of fs.readdirSync(cacheDir)) {
+    if (name !== analyzerVersion && analyzerVersionPattern.test(name)) {
+      fs.rmSync(path.join(cacheDir, name), { recursive: true, force: true });
+    }
+  }
+}
+
+function replacer(_key: string, value: unknown) {
+  if (value instanceof Map) return { $map: [...value] };
+  if (value instanceof Set) return { $set: [...value] };
+  return value;
+}
+
+function reviver(_key: string, value: unknown) {
+  if (value && typeof value === 'object') {
+    if ('$map' in value) return new Map((value as { $map: [unknown, unknown][] }).$map);
+    if ('$set' in value) return new Set((value as { $set: unknown[] }).$set);
+  }
+  return value;
+}
@@ -0,0 +1,22 @@
+// The entry point of the worker threads that classify script files in
+// parallel. See classifyFiles() in Sketch.ts.
+import { parentPort, workerData } from 'worker_threads';
+import { Script, ScriptOptions } from './Script';
+import { ScriptSketch } from './Sketch';
+import { WorkerRequest, WorkerResponse } from './worker-pool';
+
+// The main thread's Script options, such as whether the persistent cache is
+// enabled.
+if (workerData) {
+  Script.options = workerData as ScriptOptions;
+}
+
+parentPort!.on('message', async ({ id, task: file }: WorkerRequest<string>) => {
+  let response: WorkerResponse<boolean>;
+  try {
+    response = { id, result: await ScriptSketch.isSketchScriptFile(file) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  parentPort!.postMessage(response);
+});
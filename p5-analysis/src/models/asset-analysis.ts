@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+
+/** A problem with a file that a sketch refers to.
+ *
+ * - `missing`: `referencedBy` refers to `file`, but there isn't a file at that
+ *   path.
+ * - `caseMismatch`: `referencedBy` refers to `file`, but the name of the file
+ *   on disk is `actualFile`, with different capitalization. This works on a
+ *   case-insensitive file system, such as the macOS and Windows defaults, but
+ *   not on a case-sensitive one, such as Linux or most web servers.
+ *
+ * File names are relative to the sketch directory.
+ */
+export type AssetIssue =
+  | { type: 'missing'; file: string; referencedBy: string }
+  | { type: 'caseMismatch'; file: string; actualFile: string; referencedBy: string };
+
+/** A reference from a sketch file to another file. `file` is the path as it
+ * is written in the source, such as a `loadImage()` argument or a `<script>`
+ * `src` attribute. */
+export type AssetReference = { file: string; referencedBy: string };
+
+/** Checks that the files that `references` refer to exist in `dir`, and that
+ * their names match in case. URLs, absolute paths, and paths that go outside
+ * of `dir` aren't checked. */
+export function analyzeAssetReferences(
+  dir: string,
+  references: readonly AssetReference[]
+): AssetIssue[] {
+  const issues: AssetIssue[] = [];
+  const seen = new Set<string>();
+  for (const { file, referencedBy } of references) {
+    const relPath = toRelativePath(file);
+    const key = JSON.stringify([relPath, referencedBy]);
+    if (!relPath || seen.has(key)) continue;
+    seen.add(key);
+    const actualFile = findFile(dir, relPath);
+    if (actualFile === null) {
+      issues.push({ type: 'missing', file: relPath, referencedBy });
+    } else if (actualFile !== relPath) {
+      issues.push({ type: 'caseMismatch', file: relPath, actualFile, referencedBy });
+    }
+  }
+  return issues;
+}
+
+/** The path that a reference refers to, relative to the sketch directory and
+ * without a query or fragment; or null if it isn't a local relative path. A
+ * reference is a URL, so percent-encoded characters, as in `my%20image.png`,
+ * are decoded. */
+function toRelativePath(file: string): string | null {
+  if (/^[a-z][a-z\d+.-]*:|^\/|^#/i.test(file)) return null;
+  let urlPath = file.replace(/[?#].*/, '');
+  try {
+    urlPath = decodeURIComponent(urlPath);
+  } catch (e) {
+    // A malformed escape sequence, such as a bare `%`. Use the path as it is.
+  }
+  const relPath = path.posix.normalize(urlPath);
+  if (!relPath || relPath === '.' || relPath.startsWith('..')) return null;
+  return relPath;
+}
+
+/** Returns the path of the file in `dir` whose name matches `relPath`,
+ * ignoring case. If a file matches exactly, this is `relPath`. Returns null
+ * if there isn't a match.
+ *
+ * This compares against the directory entries, since on a case-insensitive
+ * file system `fs.existsSync()` doesn't distinguish between the two. */
+function findFile(dir: string, relPath: string): string | null {
+  const components: string[] = [];
+  for (const name of relPath.split('/')) {
+    const parent = path.join(dir, ...components);
+    if (!fs.existsSync(parent) || !fs.statSync(parent).isDirectory()) return null;
+    const entries = fs.readdirSync(parent);
+    const match =
+      entries.find(entry => entry === name) ||
+      entries.find(entry => entry.toLowerCase() === name.toLowerCase());
+    if (!match) return null;
+    components.push(match);
+  }
+  return components.join('/');
+}
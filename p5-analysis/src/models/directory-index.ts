@@ -0,0 +1,56 @@
+import { readdir, stat } from 'fs/promises';
+import lruCache from 'lru-cache';
+import path from 'path';
+
+/** An entry in a directory index. `isDirectory` follows symbolic links. */
+export type DirectoryEntry = { name: string; isDirectory: boolean };
+
+type IndexCacheEntry = { mtimeMs: number; entries: Promise<DirectoryEntry[]> };
+
+const indexCache = new lruCache<string, IndexCacheEntry>({ max: 5000 });
+
+/** Lists the entries of a directory, using async fs. Returns null if `dir`
+ * doesn't exist or isn't a directory.
+ *
+ * The listing is memoized, and is reused until the directory's modification
+ * time changes. (Adding, removing, or renaming an entry changes it; editing a
+ * file doesn't.) This lets the several scans that analyzing a tree of sketches
+ * performs share a single read of each directory.
+ */
+export async function readDirectoryIndex(
+  dir: string
+): Promise<DirectoryEntry[] | null> {
+  const key = path.resolve(dir);
+  let mtimeMs: number;
+  try {
+    const info = await stat(key);
+    if (!info.isDirectory()) return null;
+    mtimeMs = info.mtimeMs;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+  const cached = indexCache.get(key);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.entries;
+  }
+  const entries = readEntries(key);
+  indexCache.set(key, { mtimeMs, entries });
+  entries.catch(() => indexCache.del(key));
+  return entries;
+}
+
+async function readEntries(dir: string): Promise<DirectoryEntry[]> {
+  const dirents = await readdir(dir, { withFileTypes: true });
+  return Promise.all(
+    dirents.map(async dirent => ({
+      name: dirent.name,
+      isDirectory: dirent.isSymbolicLink()
+        ? await stat(path.join(dir, dirent.name)).then(
+            info => info.isDirectory(),
+            () => false
+          )
+        : dirent.isDirectory()
+    }))
+  );
+}
@@ -0,0 +1,59 @@
+import { Script } from './Script';
+
+/** The p5.js functions that a global-mode sketch defines, and that p5.js
+ * calls. */
+const lifecycleFunctionNames = ['preload', 'setup', 'draw'];
+
+/** A problem with the way that the scripts of an HTML sketch share the global
+ * scope.
+ *
+ * - `useBeforeLoad`: `file` references `name` when it is loaded, but `name` is
+ *   only defined by `definedIn`, which is loaded after `file`.
+ * - `duplicateDefinition`: `name` is defined by more than one of `files`.
+ * - `duplicateLifecycleFunction`: the p5.js function `name` (such as `setup`
+ *   or `draw`) is defined by more than one of `files`. Only the last
+ *   definition is used.
+ */
+export type GlobalScopeIssue =
+  | { type: 'useBeforeLoad'; name: string; file: string; definedIn: string }
+  | { type: 'duplicateDefinition'; name: string; files: string[] }
+  | { type: 'duplicateLifecycleFunction'; name: string; files: string[] };
+
+/** Analyzes scripts that share a single global scope, such as the scripts that
+ * an HTML file loads with `<script src=…>`. `scripts` is in load order. */
+export function analyzeGlobalScope(
+  scripts: readonly { file: string; script: Script }[]
+): GlobalScopeIssue[] {
+  const issues: GlobalScopeIssue[] = [];
+
+  // name => files that define it, in load order
+  const definitions = new Map<string, string[]>();
+  for (const { file, script } of scripts) {
+    for (const name of script.defs.keys()) {
+      definitions.set(name, [...(definitions.get(name) || []), file]);
+    }
+  }
+
+  scripts.forEach(({ file, script }, i) => {
+    const loaded = new Set(scripts.slice(0, i + 1).map(s => s.file));
+    for (const name of script.loadTimeRefs) {
+      const files = definitions.get(name);
+      if (files && !files.some(f => loaded.has(f))) {
+        issues.push({ type: 'useBeforeLoad', name, file, definedIn: files[0] });
+      }
+    }
+  });
+
+  for (const [name, files] of definitions) {
+    if (files.length > 1) {
+      issues.push({
+        type: lifecycleFunctionNames.includes(name)
+          ? 'duplicateLifecycleFunction'
+          : 'duplicateDefinition',
+        name,
+        files
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import { compareVersions } from '../helpers';
+import { Library } from './Library';
+import { DefinitionType } from './Script';
+
+const globalsDir = `${__dirname}/globals`;
+
+/** The kind of a global that p5.js defines. */
+export type GlobalKind = DefinitionType | 'constant';
+
+/** The source of a global variable that a script references:
+ *
+ * - `p5`: p5.js defines it, such as `createCanvas` or `mouseX`.
+ * - `browser`: it is a JavaScript built-in or a browser global, such as `Math`
+ *   or `document`.
+ * - `library`: one of the libraries defines it, such as `loadSound`.
+ * - `unknown`: none of these define it.
+ *
+ * If more than one source defines a name, the first of these applies.
+ */
+export type GlobalClassification = 'p5' | 'browser' | 'library' | 'unknown';
+
+const p5GlobalsCache = new Map<string, ReadonlyMap<string, GlobalKind>>();
+let _browserGlobals: ReadonlySet<string> | undefined;
+
+/** The p5.js versions, as major.minor, that there are symbol tables for. In
+ * ascending order. */
+export function getSupportedP5Versions(): readonly string[] {
+  return fs
+    .readdirSync(globalsDir)
+    .map(name => name.match(/^p5-(\d+\.\d+)\.json$/)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .sort(compareVersions);
+}
+
+/** The version, as major.minor, of the symbol table that `getP5Globals()`
+ * uses for `p5Version`. If there isn't a table for that version, this is the
+ * latest table for an earlier version; or, if the version is earlier than
+ * every table, the earliest table. This can be a table for a different major
+ * version, such as `1.11` for `2.0.0`.
+ */
+export function getP5GlobalsVersion(p5Version: string): string {
+  const versions = getSupportedP5Versions();
+  return (
+    [...versions].reverse().find(v => compareVersions(v, p5Version) <= 0) || versions[0]
+  );
+}
+
+/** The global variables that p5.js defines in global mode, such as
+ * `createCanvas`, `mouseX`, and `PI`. This is a map of names to kinds.
+ *
+ * `p5Version` can be a major.minor version such as `1.4`, or a full version
+ * such as `1.4.2`. See `getP5GlobalsVersion()` for the table that this uses.
+ */
+export function getP5Globals(p5Version: string): ReadonlyMap<string, GlobalKind> {
+  const version = getP5GlobalsVersion(p5Version);
+  let globals = p5GlobalsCache.get(version);
+  if (!globals) {
+    const json = fs.readFileSync(`${globalsDir}/p5-${version}.json`, 'utf-8');
+    globals = new Map(Object.entries(JSON.parse(json) as Record<string, GlobalKind>));
+    p5GlobalsCache.set(version, globals);
+  }
+  return globals;
+}
+
+/** The JavaScript built-ins, such as `Math` and `JSON`, and the browser
+ * globals, such as `document` and `console`. */
+export function getBrowserGlobals(): ReadonlySet<string> {
+  if (!_browserGlobals) {
+    const json = fs.readFileSync(`${globalsDir}/browser.json`, 'utf-8');
+    _browserGlobals = new Set(JSON.parse(json) as string[]);
+  }
+  return _browserGlobals;
+}
+
+/** Classifies global variable names by their source. Returns a map of names
+ * to classifications. */
+export function classifyGlobals(
+  names: Iterable<string>,
+  { p5Version, libraries }: { p5Version: string; libraries: readonly Library[] }
+): Map<string, GlobalClassification> {
+  const p5Globals = getP5Globals(p5Version);
+  const browserGlobals = getBrowserGlobals();
+  const libraryGlobals = new Set(libraries.flatMap(lib => lib.globals));
+  return new Map(
+    [...names].map(name => [
+      name,
+      p5Globals.has(name)
+        ? 'p5'
+        : browserGlobals.has(name)
+        ? 'browser'
+        : libraryGlobals.has(name)
+        ? 'library'
+        : 'unknown'
+    ])
+  );
+}
+
+/** The functions that a global-mode sketch defines, and that p5.js calls:
+ * `preload()`, `setup()`, `draw()`, and the event handlers. */
+export const p5CallbackNames: readonly string[] = [
+  'preload',
+  'setup',
+  'draw',
+  'windowResized',
+  'deviceMoved',
+  'deviceTurned',
+  'deviceShaken',
+  'keyPressed',
+  'keyReleased',
+  'keyTyped',
+  'mouseMoved',
+  'mouseDragged',
+  'mousePressed',
+  'mouseReleased',
+  'mouseClicked',
+  'doubleClicked',
+  'mouseWheel',
+  'touchStarted',
+  'touchMoved',
+  'touchEnded'
+];
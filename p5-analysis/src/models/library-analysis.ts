@@ -0,0 +1,102 @@
+import { compareVersions } from '../helpers';
+import { Library } from './Library';
+
+/** A problem with a library that a sketch uses.
+ *
+ * - `outdatedVersion`: the sketch pins `version` of the library named
+ *   `library`, which is older than the `recommendedVersion` that the library
+ *   registry specifies.
+ * - `deprecatedLibrary`: the sketch uses a library that the registry marks as
+ *   deprecated. `message` explains why, if the registry does; `replacedBy` is
+ *   the name of the library that replaces it, if there is one.
+ * - `incompatibleLibrary`: the library doesn't work with the sketch's version
+ *   of p5.js, `p5Version`. `p5Versions` is the range of versions that it works
+ *   with.
+ * - `ambiguousReference`: the sketch references `name`, which more than one of
+ *   `libraries` defines. None of them is included. A `// library:` comment
+ *   directive that names or excludes one of them resolves this.
+ */
+export type LibraryIssue =
+  | {
+      type: 'outdatedVersion';
+      library: string;
+      version: string;
+      recommendedVersion: string;
+    }
+  | {
+      type: 'deprecatedLibrary';
+      library: string;
+      message?: string;
+      replacedBy?: string;
+    }
+  | {
+      type: 'incompatibleLibrary';
+      library: string;
+      p5Version: string;
+      p5Versions: string;
+    }
+  | {
+      type: 'ambiguousReference';
+      name: string;
+      libraries: readonly string[];
+    };
+
+/** Checks the versions that a sketch pins its libraries to against the
+ * versions that the registry recommends; checks for deprecated libraries, and
+ * for libraries that don't work with the sketch's version of p5.js,
+ * `p5Version`; and reports the `ambiguities` that library inference couldn't
+ * resolve. */
+export function analyzeLibraries(
+  libraries: readonly Library[],
+  {
+    ambiguities = [],
+    p5Version
+  }: { ambiguities?: readonly Library.Ambiguity[]; p5Version?: string } = {}
+): LibraryIssue[] {
+  const issues: LibraryIssue[] = [];
+  for (const library of libraries) {
+    const { version, recommendedVersion } = library;
+    if (version && recommendedVersion && isOlderVersion(version, recommendedVersion)) {
+      issues.push({
+        type: 'outdatedVersion',
+        library: library.name,
+        version,
+        recommendedVersion
+      });
+    }
+    if (library.deprecated) {
+      const { deprecated, replacedBy } = library;
+      issues.push({
+        type: 'deprecatedLibrary',
+        library: library.name,
+        ...(typeof deprecated === 'string' ? { message: deprecated } : {}),
+        ...(replacedBy ? { replacedBy } : {})
+      });
+    }
+    if (p5Version && library.p5Versions && !library.supportsP5Version(p5Version)) {
+      issues.push({
+        type: 'incompatibleLibrary',
+        library: library.name,
+        p5Version,
+        p5Versions: library.p5Versions
+      });
+    }
+  }
+  for (const { name, libraries } of ambiguities) {
+    issues.push({ type: 'ambiguousReference', name, libraries });
+  }
+  return issues;
+}
+
+/** Returns true if `version` is older than `recommendedVersion`. A version
+ * with fewer components, such as `1` or `1.4`, is a range that includes the
+ * versions that it is a prefix of, so `1.4` isn't older than `1.4.2`. Versions
+ * that aren't numeric, such as `latest`, are never older. */
+function isOlderVersion(version: string, recommendedVersion: string): boolean {
+  if (!/^\d+(\.\d+)*$/.test(version)) return false;
+  const truncated = recommendedVersion
+    .split('.')
+    .slice(0, version.split('.').length)
+    .join('.');
+  return compareVersions(version, truncated) < 0;
+}
@@ -0,0 +1,200 @@
+import { HTMLElement, parse as parseHtml } from 'node-html-parser';
+import { Library } from './Library';
+
+// These functions edit the text of a script or HTML file, so that the parts of
+// the file that they don't change keep their formatting.
+
+/** A line that contains a `// library:` comment directive. The groups are the
+ * text before the list of specs, the list, and the trailing whitespace. */
+const directiveLinePattern = /^([ \t]*\/\/[ \t]*library\b:?[ \t]*)(.*?)([ \t]*\r?)$/;
+
+/** Returns `source`, with its `// library:` comment directives changed so that
+ * they name `library` with `spec` or, if `spec` is null, don't name it. A spec
+ * such as `-p5.play` that excludes the library counts as naming it. If no
+ * directive names the library, `spec` is appended to the first directive, or
+ * a new directive is added at the top of the script. A directive that no
+ * longer names any libraries is removed. */
+export function updateLibraryDirective(
+  source: string,
+  library: Library,
+  spec: string | null,
+  { dir }: { dir?: string } = {}
+): string {
+  const namesLibrary = (s: string) =>
+    Library.fromSpec(s.replace(/^-/, ''), { dir }).name === library.name;
+  let found = false;
+  const lines = source.split('\n').flatMap(line => {
+    const match = line.match(directiveLinePattern);
+    if (!match) return [line];
+    const [, prefix, list, suffix] = match;
+    const specs = list.split(/,?\s+/).filter(s => s);
+    const kept = specs.flatMap(s => {
+      if (!namesLibrary(s)) return [s];
+      if (spec && !found) {
+        found = true;
+        return [spec];
+      }
+      return [];
+    });
+    if (kept.length === 0) return [];
+    return [prefix + kept.join(listSeparator(list)) + suffix];
+  });
+  if (spec && !found) {
+    const i = lines.findIndex(line => directiveLinePattern.test(line));
+    if (i >= 0) {
+      const [, prefix, list, suffix] = lines[i].match(directiveLinePattern)!;
+      lines[i] = prefix + [list, spec].join(listSeparator(list)) + suffix;
+    } else {
+      // keep a shebang line first
+      lines.splice(lines[0]?.startsWith('#!') ? 1 : 0, 0, `// library: ${spec}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/** The spec that a `// library:` comment directive uses to name `library`:
+ * its name, if it is in the library registry, or else its npm package name or
+ * URL. A pinned version follows the name or package name. If `exclude` is
+ * true, this is the spec that excludes the library, such as `-p5.play`. */
+export function librarySpec(
+  library: Library,
+  { dir, exclude = false }: { dir?: string; exclude?: boolean } = {}
+): string {
+  const name = Library.find({ name: library.name, dir })
+    ? library.name
+    : library.packageName;
+  if (exclude) return `-${name || library.name}`;
+  if (!name) return library.importPath || library.name;
+  return library.version ? `${name}@${library.version}` : name;
+}
+
+/** The separator between the specs of a directive: a comma, unless the
+ * directive separates them with spaces. */
+function listSeparator(list: string): string {
+  return /\S\s+\S/.test(list) && !list.includes(',') ? ' ' : ', ';
+}
+
+/** Returns `html`, with `<script>` elements that load the scripts of
+ * `libraries`, and `<link>` elements that load their stylesheets, added. The
+ * scripts are added in order, before the first script that isn't a library or
+ * p5.js, so that they load after p5.js and before the sketch. */
+export function addLibraryElements(
+  html: string,
+  libraries: readonly Library[],
+  { dir, p5Version }: { dir?: string; p5Version?: string } = {}
+): string {
+  const root = parseHtml(html);
+  const scripts = root.querySelectorAll('script');
+  const isLibraryScript = (e: HTMLElement) => {
+    const src = e.attributes.src;
+    return Boolean(
+      src && (/\bp5(\.min)?\.js$/.test(src) || Library.fromImportPath(src, { dir }))
+    );
+  };
+  const anchor = scripts.find(e => !isLibraryScript(e));
+  const insertions: { offset: number; text: (indent: string) => string }[] = [];
+
+  const scriptPaths = libraries.flatMap(lib => lib.getScriptPaths(p5Version));
+  if (scriptPaths.length > 0) {
+    const elements = scriptPaths.map(
+      src => `<script src="${src}" crossorigin="anonymous"></script>`
+    );
+    if (anchor) {
+      insertions.push({
+        offset: anchor.range[0],
+        text: indent => elements.map(e => e + '\n' + indent).join('')
+      });
+    } else {
+      const last = scripts[scripts.length - 1] || root.querySelector('head');
+      insertions.push(appendAfter(html, last, elements));
+    }
+  }
+
+  const stylesheets = libraries.flatMap(lib => lib.getStylesheetPaths(p5Version));
+  if (stylesheets.length > 0) {
+    const elements = stylesheets.map(href => `<link rel="stylesheet" href="${href}">`);
+    const links = root.querySelectorAll('head link');
+    insertions.push(
+      appendAfter(html, links[links.length - 1] || root.querySelector('head'), elements)
+    );
+  }
+
+  return insertions
+    .sort((a, b) => b.offset - a.offset)
+    .reduce(
+      (result, { offset, text }) =>
+        result.slice(0, offset) + text(lineIndent(html, offset)) + result.slice(offset),
+      html
+    );
+}
+
+/** An insertion of `elements` after `element`, on lines of their own, with the
+ * element's indentation. If `element` is a container such as `<head>`, they
+ * are inserted at the end of its content, indented one level deeper. */
+function appendAfter(
+  html: string,
+  element: HTMLElement | null,
+  elements: string[]
+): { offset: number; text: (indent: string) => string } {
+  if (!element) {
+    throw new Error('The HTML file has no <head> element');
+  }
+  const [start, end] = element.range;
+  const indent = lineIndent(html, start);
+  if (element.tagName === 'HEAD') {
+    const offset = html.lastIndexOf('</', end);
+    const childIndent = indent + '  ';
+    return {
+      offset: html.lastIndexOf('\n', offset - 1) + 1,
+      text: () => elements.map(e => childIndent + e + '\n').join('')
+    };
+  }
+  return { offset: end, text: () => elements.map(e => '\n' + indent + e).join('') };
+}
+
+/** Returns `html`, without the `<script>` elements that load `library`, and
+ * the `<link>` elements that load its stylesheets. An element that is on a
+ * line of its own is removed with its line. */
+export function removeLibraryElements(
+  html: string,
+  library: Library,
+  { dir }: { dir?: string } = {}
+): string {
+  const root = parseHtml(html);
+  const loadsLibrary = (url: string | undefined) =>
+    Boolean(url && Library.fromImportPath(url, { dir })?.name === library.name);
+  const elements = [
+    ...root.querySelectorAll('script').filter(e => loadsLibrary(e.attributes.src)),
+    ...root
+      .querySelectorAll('link[rel=stylesheet]')
+      .filter(e => loadsLibrary(e.attributes.href))
+  ];
+  return elements
+    .map(e => lineRange(html, e.range))
+    .sort((a, b) => b[0] - a[0])
+    .reduce((result, [start, end]) => result.slice(0, start) + result.slice(end), html);
+}
+
+/** The range of an element, extended to include its line if there is only
+ * whitespace on the line. */
+function lineRange(
+  html: string,
+  [start, end]: readonly [number, number]
+): [number, number] {
+  const lineStart = html.lastIndexOf('\n', start - 1) + 1;
+  let lineEnd = html.indexOf('\n', end);
+  if (lineEnd < 0) lineEnd = html.length;
+  if (
+    /^\s*$/.test(html.slice(lineStart, start)) &&
+    /^\s*$/.test(html.slice(end, lineEnd))
+  ) {
+    return [lineStart, Math.min(lineEnd + 1, html.length)];
+  }
+  return [start, end];
+}
+
+/** The whitespace at the start of the line that contains `offset`. */
+function lineIndent(html: string, offset: number): string {
+  const lineStart = html.lastIndexOf('\n', offset - 1) + 1;
+  return html.slice(lineStart).match(/^[ \t]*/)![0];
+}
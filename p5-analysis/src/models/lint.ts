@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { isScriptPathname } from '../helpers';
+import { isDefined } from '../helpers/ts-extras';
+import { classifyGlobals, getP5GlobalsVersion, p5CallbackNames } from './globals';
+import { Library } from './Library';
+import { Script } from './Script';
+import { Sketch } from './Sketch';
+
+export type LintRuleId =
+  | 'misspelled-callback'
+  | 'callback-not-global'
+  | 'p5-global-at-load-time'
+  | 'multiple-create-canvas'
+  | 'undefined-variable'
+  | 'unsupported-p5-version';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** The lint rules. `description` is a one-line description of the problem
+ * that the rule reports. */
+export const lintRules: Readonly<Record<
+  LintRuleId,
+  { description: string; severity: LintSeverity }
+>> = {
+  'misspelled-callback': {
+    description:
+      'A function name differs only in case from a function that p5.js calls, such as setup() or draw()',
+    severity: 'warning'
+  },
+  'callback-not-global': {
+    description:
+      'A function that p5.js calls, such as setup() or draw(), is declared in a way that p5.js cannot find or call',
+    severity: 'error'
+  },
+  'p5-global-at-load-time': {
+    description:
+      'A p5.js function or variable is used outside of a function, before p5.js has defined it',
+    severity: 'error'
+  },
+  'multiple-create-canvas': {
+    description: 'createCanvas() is called more than once',
+    severity: 'warning'
+  },
+  'undefined-variable': {
+    description:
+      'A variable is neither defined by the sketch, nor by p5.js, the browser, or a known library',
+    severity: 'warning'
+  },
+  'unsupported-p5-version': {
+    description:
+      "The sketch's p5.js version has no table of globals, so the sketch is checked against the globals of another major version",
+    severity: 'warning'
+  }
+};
+
+/** A problem that `lintSketch` found. `file` is relative to the sketch
+ * directory. `line` and `column` are 1-based. */
+export type LintDiagnostic = {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+};
+
+/** Reports p5.js-specific mistakes in the scripts of a sketch. The scripts of
+ * a sketch share its global scope, so a variable that one script defines can
+ * be used by another. Scripts that are missing, or that have syntax errors,
+ * are skipped.
+ */
+export function lintSketch(sketch: Sketch): LintDiagnostic[] {
+  const scripts = sketch.files
+    .filter(file => isScriptPathname(file))
+    .map(file => {
+      const filePath = path.join(sketch.dir, file);
+      if (!fs.existsSync(filePath)) return null;
+      const script = Script.fromFile(filePath);
+      return script.getErrors().length ? null : { file, script };
+    })
+    .filter(isDefined);
+
+  const sketchDefs = new Set(scripts.flatMap(({ script }) => [...script.defs.keys()]));
+  const classifications = classifyGlobals(
+    scripts.flatMap(({ script }) => [...script.refs]),
+    { p5Version: sketch.p5Version, libraries: Library.forDirectory(sketch.dir) }
+  );
+  const diagnostics: LintDiagnostic[] = [];
+  let createCanvasCount = 0;
+
+  // The other rules would silently apply, for example, the p5.js 1.x globals
+  // and callbacks (such as preload()) to a p5.js 2.x sketch.
+  const { p5Version } = sketch;
+  const globalsVersion = getP5GlobalsVersion(p5Version);
+  const major = (version: string) => version.split('.')[0];
+  if (major(globalsVersion) !== major(p5Version)) {
+    diagnostics.push({
+      rule: 'unsupported-p5-version',
+      severity: lintRules['unsupported-p5-version'].severity,
+      message: `There is no table of p5.js ${major(
+        p5Version
+      )}.x globals. The sketch is checked against the p5.js ${globalsVersion} globals, so some reports may be wrong.`,
+      file: sketch.mainFile,
+      line: 1,
+      column: 1
+    });
+  }
+
+  for (const { file, script } of scripts) {
+    const fileDiagnostics: LintDiagnostic[] = [];
+    const report = (
+      rule: LintRuleId,
+      message: string,
+      loc: { line: number; column: number }
+    ) =>
+      fileDiagnostics.push({
+        rule,
+        severity: lintRules[rule].severity,
+        message,
+        file,
+        line: loc.line,
+        column: loc.column + 1
+      });
+
+    // p5.js looks for its callbacks as properties of `window`. A module's
+    // top-level declarations aren't, so a module sketch assigns them instead.
+    if (!script.isModule) {
+      for (const decl of script.findGlobalDeclarationLocations()) {
+        const { name } = decl;
+        if (p5CallbackNames.includes(name)) {
+          if (decl.kind === 'let' || decl.kind === 'const') {
+            report(
+              'callback-not-global',
+              `${name} is declared with ${decl.kind}, so p5.js cannot find it. Use \`function ${name}() {…}\` instead.`,
+              decl
+            );
+          } else if (decl.type !== 'function') {
+            report('callback-not-global', `${name} is not a function`, decl);
+          }
+          continue;
+        }
+        const callbackName = p5CallbackNames.find(
+          s => s.toLowerCase() === name.toLowerCase()
+        );
+        if (callbackName && decl.type === 'function') {
+          report(
+            'misspelled-callback',
+            `${name}() is not called by p5.js. Did you mean ${callbackName}()?`,
+            decl
+          );
+        }
+      }
+    }
+
+    const reportedNames = new Set<string>();
+    for (const ref of script.findGlobalReferenceLocations()) {
+      const { name } = ref;
+      if (ref.call && name === 'createCanvas' && ++createCanvasCount > 1) {
+        report(
+          'multiple-create-canvas',
+          'createCanvas() is called more than once. Use resizeCanvas() to change the size of the canvas.',
+          ref
+        );
+      }
+      if (sketchDefs.has(name)) continue;
+      const classification = classifications.get(name);
+      if (classification === 'p5') {
+        if (ref.loadTime && name !== 'p5') {
+          report(
+            'p5-global-at-load-time',
+            `${name}${
+              ref.call ? '()' : ''
+            } is not defined until p5.js starts the sketch. Use it inside setup() or preload().`,
+            ref
+          );
+        }
+      } else if (classification === 'unknown' && !reportedNames.has(name)) {
+        reportedNames.add(name);
+        report(
+          'undefined-variable',
+          `${name} is not defined by this sketch, by p5.js, or by a known library`,
+          ref
+        );
+      }
+    }
+    diagnostics.push(
+      ...fileDiagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+    );
+  }
+  return diagnostics;
+}
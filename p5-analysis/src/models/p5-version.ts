@@ -0,0 +1,53 @@
+import path from 'path';
+import { Cdn } from './Cdn';
+
+/** The p5.js version that sketches use if they don't specify one, unless
+ * setDefaultP5Version() changes this. */
+export const p5Version = '1.4';
+
+let defaultP5Version = p5Version;
+
+const versionPattern = /^\d+(\.\d+){0,2}(-[\w.]+)?$/;
+
+/** A comment directive that selects a sketch's p5.js version, e.g.
+ * `// p5-version: 1.9.0`. */
+export const p5VersionDirectivePattern = /^p5-version:?\s*(\S+)/;
+
+/** Returns true if `version` is a p5.js version, such as `1`, `1.4`, `1.4.2`,
+ * or `2.0.0-beta.1`. */
+export function isP5Version(version: string): boolean {
+  return versionPattern.test(version);
+}
+
+/** The p5.js version that sketches use if they don't specify one. */
+export function getDefaultP5Version(): string {
+  return defaultP5Version;
+}
+
+/** Sets the p5.js version that sketches use if they don't specify one. This
+ * applies to the whole process. It implements the `--p5-version` command-line
+ * option. */
+export function setDefaultP5Version(version: string): void {
+  if (!isP5Version(version)) {
+    throw new Error(`Invalid p5.js version: ${version}`);
+  }
+  defaultP5Version = version;
+}
+
+/** The URL that loads a version of p5.js from a CDN. This is the preferred
+ * CDN, if one is set and it can serve this version. */
+export function getP5ImportPath(version = defaultP5Version): string {
+  return Cdn.rewriteUrl(`https://cdn.jsdelivr.net/npm/p5@${version}/lib/p5.min.js`);
+}
+
+/** If `url` loads p5.js from a CDN, returns the version that it loads.
+ * Otherwise, returns null. This recognizes npm CDN URLs such as
+ * `https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.js`, and cdnjs URLs such as
+ * `https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.min.js`. */
+export function parseP5VersionFromUrl(url: string): string | null {
+  if (!/^(https?:)?\/\//.test(url)) return null;
+  const pathname = url.replace(/[?#].*/, '');
+  if (!/^p5(\.min)?\.js$/.test(path.posix.basename(pathname))) return null;
+  const version = pathname.match(/\/p5(?:\.js)?[@/]([^/]+)\//)?.[1];
+  return version && isP5Version(version) ? version : null;
+}
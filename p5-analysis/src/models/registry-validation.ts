@@ -0,0 +1,222 @@
+import fs from 'fs';
+
+/** A place where a library registry file doesn't match its schema. `pointer`
+ * is the JSON Pointer (RFC 6901) of the value, such as `/3/defines/p5`, or ''
+ * for the whole file. `keyword` is the schema keyword that the value fails. */
+export type RegistryError = {
+  file: string;
+  pointer: string;
+  keyword: string;
+  message: string;
+};
+
+/** The kinds of registry file, named after their schemas in `./schemas`. */
+export type RegistryKind = 'categories' | 'libraries';
+
+/** What loading a registry file does with schema errors. In `warn` mode, it
+ * prints them and loads the file anyway; in `strict` mode, it throws an error.
+ */
+export type RegistryValidationMode = 'strict' | 'warn';
+
+let validationMode: RegistryValidationMode =
+  process.env.P5_LIBRARY_VALIDATION === 'strict' ? 'strict' : 'warn';
+
+/** The current validation mode. This defaults to `strict` if the
+ * `P5_LIBRARY_VALIDATION` environment variable is `strict`, and `warn`
+ * otherwise. */
+export function getRegistryValidationMode(): RegistryValidationMode {
+  return validationMode;
+}
+
+/** Sets the validation mode. This applies to the whole process. */
+export function setRegistryValidationMode(mode: RegistryValidationMode): void {
+  validationMode = mode;
+}
+
+/** The subset of JSON Schema that the registry schemas use. validateValue()
+ * throws an error if a schema uses any other keyword, so that a schema change
+ * can't silently go unchecked. */
+type Schema = {
+  type?: string | string[];
+  properties?: Record<string, Schema>;
+  patternProperties?: Record<string, Schema>;
+  additionalProperties?: boolean | Schema;
+  required?: string[];
+  items?: Schema;
+  uniqueItems?: boolean;
+  pattern?: string;
+  enum?: unknown[];
+};
+
+/** The keywords that validateValue() implements. */
+const validationKeywords = new Set([
+  'type',
+  'properties',
+  'patternProperties',
+  'additionalProperties',
+  'required',
+  'items',
+  'uniqueItems',
+  'pattern',
+  'enum'
+]);
+
+/** Keywords that document a schema, and don't affect validation. */
+const annotationKeywords = new Set(['$schema', '$id', 'title', 'description']);
+
+const schemas = new Map<RegistryKind, Schema>();
+
+function getSchema(kind: RegistryKind): Schema {
+  let schema = schemas.get(kind);
+  if (!schema) {
+    schema = JSON.parse(
+      fs.readFileSync(`${__dirname}/schemas/${kind}.json`, 'utf-8')
+    ) as Schema;
+    schemas.set(kind, schema);
+  }
+  return schema;
+}
+
+/** Validates the contents of a registry file against the schema for `kind`.
+ * `pointer` is the location of `json` within the file, for a registry that is
+ * a property of a larger file, such as `/p5/libraries` in `package.json`. */
+export function validateRegistry(
+  json: unknown,
+  kind: RegistryKind,
+  { file, pointer = '' }: { file: string; pointer?: string }
+): RegistryError[] {
+  return validateValue(json, getSchema(kind), pointer).map(error => ({
+    file,
+    ...error
+  }));
+}
+
+/** The error that loading an invalid registry file throws in `strict` mode. */
+export class RegistryValidationError extends Error {
+  constructor(readonly errors: readonly RegistryError[]) {
+    super(
+      `Invalid library registry:\n${errors
+        .map(e => `  ${formatRegistryError(e)}`)
+        .join('\n')}`
+    );
+    this.name = 'RegistryValidationError';
+  }
+}
+
+/** Reports `errors` according to the validation mode: prints them, or throws
+ * a RegistryValidationError that lists them. */
+export function reportRegistryErrors(errors: readonly RegistryError[]): void {
+  if (errors.length === 0) return;
+  if (validationMode === 'strict') {
+    throw new RegistryValidationError(errors);
+  }
+  for (const error of errors) {
+    console.warn(formatRegistryError(error));
+  }
+}
+
+/** Formats an error as `file#pointer: message`. */
+export function formatRegistryError({ file, pointer, message }: RegistryError): string {
+  return `${file}${pointer ? `#${pointer}` : ''}: ${message}`;
+}
+
+function validateValue(
+  value: unknown,
+  schema: Schema,
+  pointer: string
+): Omit<RegistryError, 'file'>[] {
+  const error = (keyword: string, message: string, at = pointer) => [
+    { pointer: at, keyword, message }
+  ];
+
+  for (const keyword of Object.keys(schema)) {
+    if (!validationKeywords.has(keyword) && !annotationKeywords.has(keyword)) {
+      throw new Error(`Unsupported JSON Schema keyword: ${keyword}`);
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      return error('type', `must be ${types.map(withArticle).join(' or ')}`);
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return error(
+      'enum',
+      `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`
+    );
+  }
+  if (typeof value === 'string' && schema.pattern) {
+    if (!new RegExp(schema.pattern, 'u').test(value)) {
+      return error('pattern', `must match the pattern ${schema.pattern}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    const errors = schema.items
+      ? value.flatMap((item, i) =>
+          validateValue(item, schema.items!, `${pointer}/${i}`)
+        )
+      : [];
+    if (schema.uniqueItems) {
+      const seen = value.map(item => JSON.stringify(item));
+      seen.forEach((item, i) => {
+        if (seen.indexOf(item) < i) {
+          errors.push(...error('uniqueItems', 'is a duplicate', `${pointer}/${i}`));
+        }
+      });
+    }
+    return errors;
+  }
+  if (isObject(value)) {
+    const errors = (schema.required || [])
+      .filter(name => !(name in value))
+      .flatMap(name => error('required', `must have the property "${name}"`));
+    for (const [name, item] of Object.entries(value)) {
+      const at = `${pointer}/${escapePointerToken(name)}`;
+      const propertySchemas = [
+        ...(schema.properties?.[name] ? [schema.properties[name]] : []),
+        ...Object.entries(schema.patternProperties || {})
+          .filter(([pattern]) => new RegExp(pattern, 'u').test(name))
+          .map(([, s]) => s)
+      ];
+      if (propertySchemas.length > 0) {
+        errors.push(...propertySchemas.flatMap(s => validateValue(item, s, at)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(...error('additionalProperties', 'is not an allowed property', at));
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateValue(item, schema.additionalProperties, at));
+      }
+    }
+    return errors;
+  }
+  return [];
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withArticle(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/** Escapes a property name for use in a JSON Pointer. */
+function escapePointerToken(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
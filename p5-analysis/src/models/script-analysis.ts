@@ -1,6 +1,7 @@
-import traverse, { Node } from '@babel/traverse';
+import traverse, { Node, NodePath, Visitor } from '@babel/traverse';
 
 import * as t from '@babel/types';
+import { DeclarationLocation, ReferenceLocation, SourceLocation } from './Script';
 
 export type DefinitionType = 'function' | 'class' | 'variable';
 
@@ -10,40 +11,308 @@ const bindingValueTypes: Partial<Record<Node['type'], DefinitionType>> = {
   VariableDeclarator: 'variable'
 };
 
+/** Names, each with the locations where it occurs, in source order. */
+export type LocationMap = Map<string, SourceLocation[]>;
+
 export function findGlobalDefinitions(ast: Node): Map<string, DefinitionType> {
+  return collectGlobalDefinitions(ast).defs;
+}
+
+/** The locations of the global definitions that findGlobalDefinitions finds:
+ * the declared identifiers, and the left sides of `window.name = …`
+ * assignments. */
+export function findGlobalDefinitionLocations(ast: Node): LocationMap {
+  return collectGlobalDefinitions(ast).locations;
+}
+
+function collectGlobalDefinitions(
+  ast: Node
+): {
+  defs: Map<string, DefinitionType>;
+  locations: LocationMap;
+} {
   const defs = new Map<string, DefinitionType>();
+  const locations: LocationMap = new Map();
   traverse(ast, {
     Program(path) {
       for (const [name, binding] of Object.entries(path.scope.bindings)) {
         const type = bindingValueTypes[binding.path.node.type];
         if (type) {
           defs.set(name, type);
+          addLocation(locations, name, binding.identifier);
+        }
+      }
+      // A module's top-level bindings aren't globals, so a global-mode module
+      // sketch assigns its functions to `window` instead: `window.setup =
+      // setup`.
+      for (const stmt of path.node.body) {
+        if (!t.isExpressionStatement(stmt)) continue;
+        const expr = stmt.expression;
+        if (
+          t.isAssignmentExpression(expr, { operator: '=' }) &&
+          t.isMemberExpression(expr.left, { computed: false }) &&
+          t.isIdentifier(expr.left.object, { name: 'window' }) &&
+          t.isIdentifier(expr.left.property)
+        ) {
+          const { name } = expr.left.property;
+          defs.set(
+            name,
+            getValueType(expr.right, name => defs.get(name))
+          );
+          addLocation(locations, name, expr.left);
         }
       }
       path.skip();
     }
   });
-  return defs;
+  for (const locs of locations.values()) {
+    locs.sort((a, b) => a.range[0] - b.range[0]);
+  }
+  return { defs, locations };
+}
+
+/** The location of a node, or null if the parser didn't record one. */
+function getSourceLocation(node: t.Node): SourceLocation | null {
+  const { loc, start, end } = node;
+  if (!loc || start == null || end == null) return null;
+  // Babel sets loc.filename when the parser's sourceFilename option is set,
+  // but @babel/types doesn't declare it.
+  const { filename } = loc as t.SourceLocation & { filename?: string };
+  return {
+    ...(filename ? { file: filename } : {}),
+    line: loc.start.line,
+    column: loc.start.column,
+    range: [start, end]
+  };
+}
+
+function addLocation(locations: LocationMap, name: string, node: t.Node) {
+  const loc = getSourceLocation(node);
+  if (!loc) return;
+  const locs = locations.get(name);
+  if (locs) {
+    locs.push(loc);
+  } else {
+    locations.set(name, [loc]);
+  }
+}
+
+/** The definition type of an assigned value. `lookup` returns the definition
+ * type of a variable. */
+function getValueType(
+  node: Node,
+  lookup: (name: string) => DefinitionType | undefined
+): DefinitionType {
+  if (t.isFunctionExpression(node) || t.isArrowFunctionExpression(node)) {
+    return 'function';
+  } else if (t.isClassExpression(node)) {
+    return 'class';
+  } else if (t.isIdentifier(node)) {
+    return lookup(node.name) || 'variable';
+  }
+  return 'variable';
+}
+
+/** Finds the instance-mode sketch functions: the functions that are passed to
+ * `new p5(…)`, either directly or via a variable. Returns the names of their
+ * p5 instance parameters; the properties that they assign to the instance
+ * (`p.setup = …`); and the other properties of the instance that they
+ * reference (`p.createCanvas(…)`).
+ */
+export function findInstanceModeReferences(
+  ast: Node
+): {
+  instanceNames: Set<string>;
+  defs: Map<string, DefinitionType>;
+  refs: Set<string>;
+} {
+  const instanceNames = new Set<string>();
+  const defs = new Map<string, DefinitionType>();
+  const refs = new Set<string>();
+  traverse(ast, {
+    NewExpression(path) {
+      const { callee } = path.node;
+      if (!t.isIdentifier(callee, { name: 'p5' }) || path.scope.hasBinding('p5')) {
+        return;
+      }
+      const fn = getSketchFunction(path);
+      const [param] = fn?.node.params || [];
+      if (!fn || !t.isIdentifier(param)) return;
+      instanceNames.add(param.name);
+      const binding = fn.scope.getBinding(param.name);
+      for (const ref of binding?.referencePaths || []) {
+        const { parent, parentPath } = ref;
+        if (
+          !t.isMemberExpression(parent, { computed: false }) ||
+          parent.object !== ref.node ||
+          !t.isIdentifier(parent.property)
+        ) {
+          continue;
+        }
+        const name = parent.property.name;
+        const assignment = parentPath?.parent;
+        if (t.isAssignmentExpression(assignment) && assignment.left === parent) {
+          defs.set(
+            name,
+            getValueType(assignment.right, id => {
+              const node = ref.scope.getBinding(id)?.path.node;
+              return node && bindingValueTypes[node.type];
+            })
+          );
+        } else {
+          refs.add(name);
+        }
+      }
+    }
+  });
+  return { instanceNames, defs, refs };
+
+  function getSketchFunction(path: NodePath): NodePath<t.Function> | null {
+    const arg = path.get('arguments.0');
+    if (Array.isArray(arg)) {
+      return null;
+    }
+    if (arg.isFunction()) {
+      return arg;
+    }
+    if (arg.isIdentifier()) {
+      const binding = path.scope.getBinding(arg.node.name);
+      const decl = binding?.path;
+      if (decl?.isFunctionDeclaration()) {
+        return decl;
+      }
+      if (decl?.isVariableDeclarator()) {
+        const init = decl.get('init');
+        if (!Array.isArray(init) && init.isFunction()) {
+          return init;
+        }
+      }
+    }
+    return null;
+  }
 }
 
-export function findGlobalReferences(ast: Node): Set<string> {
+/** Skips TypeScript type annotations and declarations. The identifiers in
+ * these aren't runtime references. */
+const typeAnnotationVisitor: Visitor = {
+  TSType(path) {
+    path.skip();
+  },
+  TSDeclareFunction(path) {
+    path.skip();
+  },
+  TSInterfaceDeclaration(path) {
+    path.skip();
+  },
+  TSModuleDeclaration(path) {
+    path.skip();
+  },
+  TSTypeAliasDeclaration(path) {
+    path.skip();
+  }
+};
+
+/** Skips function bodies, which aren't evaluated when the script is loaded. */
+const functionBodyVisitor: Visitor = {
+  Function(path) {
+    path.skip();
+  }
+};
+
+/** Finds the free variables that the program references. If `loadTimeOnly` is
+ * true, references inside function bodies are omitted, leaving the references
+ * that are evaluated when the script is loaded. */
+export function findGlobalReferences(
+  ast: Node,
+  { loadTimeOnly = false } = {}
+): Set<string> {
   const refs = new Set<string>();
+  traverseGlobalReferences(ast, path => refs.add(path.node.name), { loadTimeOnly });
+  return refs;
+}
+
+/** Finds the references to free variables, in source order. Unlike
+ * findGlobalReferences, this returns every reference, not just the set of
+ * names. */
+export function findGlobalReferenceLocations(ast: Node): ReferenceLocation[] {
+  const refs: ReferenceLocation[] = [];
+  traverseGlobalReferences(ast, path => {
+    const loc = getSourceLocation(path.node);
+    if (!loc) return;
+    refs.push({
+      name: path.node.name,
+      ...loc,
+      loadTime: !path.getFunctionParent(),
+      call: t.isCallExpression(path.parent) && path.parent.callee === path.node
+    });
+  });
+  return refs;
+}
+
+function traverseGlobalReferences(
+  ast: Node,
+  visit: (path: NodePath<t.Identifier>) => void,
+  { loadTimeOnly = false } = {}
+) {
   traverse(ast, {
+    ...(loadTimeOnly ? functionBodyVisitor : {}),
+    ...typeAnnotationVisitor,
     Identifier(path) {
       if (t.isMemberExpression(path.parent) && path.parent.property === path.node)
         return;
       if (t.isClassMethod(path.parent) && path.parent.key === path.node) return;
-      const { name } = path.node;
-      if (!path.scope.hasBinding(name)) {
-        refs.add(name);
+      if (
+        (t.isObjectProperty(path.parent) || t.isObjectMethod(path.parent)) &&
+        path.parent.key === path.node &&
+        !path.parent.computed &&
+        !(t.isObjectProperty(path.parent) && path.parent.shorthand)
+      ) {
+        return;
+      }
+      if (!path.scope.hasBinding(path.node.name)) {
+        visit(path);
       }
     }
   });
-  return refs;
+}
+
+/** Finds the top-level declarations, in source order. */
+export function findGlobalDeclarationLocations(ast: Node): DeclarationLocation[] {
+  const decls: DeclarationLocation[] = [];
+  traverse(ast, {
+    Program(path) {
+      for (const [name, binding] of Object.entries(path.scope.bindings)) {
+        const loc = getSourceLocation(binding.identifier);
+        if (!loc) continue;
+        const { node } = binding.path;
+        decls.push({
+          name,
+          kind: binding.kind,
+          type: t.isVariableDeclarator(node)
+            ? node.init
+              ? getValueType(node.init, () => undefined)
+              : 'variable'
+            : bindingValueTypes[node.type] || 'variable',
+          ...loc
+        });
+      }
+      path.skip();
+    }
+  });
+  return decls.sort((a, b) => a.range[0] - b.range[0]);
 }
 
 export function findPropertyReferences(ast: Node, objectName: string): Set<string> {
-  const refs = new Set<string>();
+  return new Set(findPropertyReferenceLocations(ast, objectName).keys());
+}
+
+/** Finds the properties of `objectName` that the program references, such as
+ * `prop` in `p5.prop`, and the locations of the references. */
+export function findPropertyReferenceLocations(
+  ast: Node,
+  objectName: string
+): LocationMap {
+  const refs: LocationMap = new Map();
   traverse(ast, {
     MemberExpression(path) {
       const { object, property } = path.node;
@@ -51,25 +320,293 @@ export function findPropertyReferences(ast: Node, objectName: string): Set<strin
         t.isIdentifier(object, { name: objectName }) &&
         property.type === 'Identifier'
       ) {
-        refs.add(property.name);
+        addLocation(refs, property.name, path.node);
       }
     }
   });
   return refs;
 }
 
-export function findCallArguments(ast: Node, namePattern: RegExp): Set<string> {
-  const calls = new Set<string>();
+/** Finds the properties that the program assigns to `p5.prototype` and to
+ * `p5`, such as `loadSound` in `p5.prototype.loadSound = …` and `SoundFile` in
+ * `p5.SoundFile = …`. Assignments anywhere in the program count, since a
+ * library bundle usually makes them inside a function. A call to
+ * `Object.assign(p5.prototype, {…})` assigns the properties of the object
+ * literal. */
+export function findP5PropertyAssignments(
+  ast: Node
+): { prototype: Set<string>; p5: Set<string> } {
+  const prototype = new Set<string>();
+  const p5 = new Set<string>();
+  const isP5 = (node: Node) => t.isIdentifier(node, { name: 'p5' });
+  const isP5Prototype = (node: Node) =>
+    t.isMemberExpression(node) &&
+    isP5(node.object) &&
+    getMemberPropertyName(node) === 'prototype';
   traverse(ast, {
+    AssignmentExpression(path) {
+      const { left } = path.node;
+      if (!t.isMemberExpression(left)) return;
+      const name = getMemberPropertyName(left);
+      if (!name) return;
+      if (isP5Prototype(left.object)) {
+        prototype.add(name);
+      } else if (isP5(left.object) && name !== 'prototype') {
+        p5.add(name);
+      }
+    },
     CallExpression(path) {
-      const { callee } = path.node;
-      if (callee.type === 'Identifier' && namePattern.test(callee.name)) {
-        const [arg] = path.node.arguments;
-        if (arg?.type === 'StringLiteral') {
-          calls.add(arg.value);
+      const { callee, arguments: args } = path.node;
+      if (
+        !t.isMemberExpression(callee) ||
+        !t.isIdentifier(callee.object, { name: 'Object' }) ||
+        getMemberPropertyName(callee) !== 'assign' ||
+        !args[0] ||
+        !isP5Prototype(args[0])
+      ) {
+        return;
+      }
+      for (const arg of args.slice(1)) {
+        if (!t.isObjectExpression(arg)) continue;
+        for (const prop of arg.properties) {
+          if (t.isSpreadElement(prop) || prop.computed) continue;
+          if (t.isIdentifier(prop.key)) prototype.add(prop.key.name);
+          else if (t.isStringLiteral(prop.key)) prototype.add(prop.key.value);
         }
       }
     }
   });
-  return calls;
+  return { prototype, p5 };
+}
+
+/** The name of the property of a member expression: `b` in `a.b` or
+ * `a['b']`. Returns null if the property is computed from a non-constant. */
+function getMemberPropertyName(node: t.MemberExpression): string | null {
+  const { property, computed } = node;
+  if (!computed && t.isIdentifier(property)) return property.name;
+  if (computed && t.isStringLiteral(property)) return property.value;
+  return null;
+}
+
+/** The arguments of p5.js functions that are paths or URLs of asset files,
+ * by function name. A function that isn't listed here, and whose name begins
+ * with `load`, takes a path as its first argument. */
+const assetArgumentIndices: Record<string, number[]> = {
+  loadShader: [0, 1],
+  createAudio: [0],
+  createImg: [0],
+  createVideo: [0]
+};
+
+/** Finds the paths of the asset files that the program loads: the string
+ * values of the path arguments to calls to `loadImage()`, `loadShader()`,
+ * `createVideo()`, etc., and to the same methods of the p5 instance parameters
+ * in `instanceNames`. Returns the paths, and the locations of the expressions
+ * that spell them.
+ *
+ * An argument can be a string literal; a template literal or concatenation
+ * whose parts are constants; a variable that is only assigned a constant; an
+ * array of these (as in `createVideo(['a.mp4', 'a.webm'])`); or the loop
+ * variable, or `forEach()` or `map()` callback parameter, that iterates over
+ * such an array.
+ */
+export function findAssetReferenceLocations(
+  ast: Node,
+  instanceNames: ReadonlySet<string> = new Set()
+): LocationMap {
+  const assets: LocationMap = new Map();
+  traverse(ast, {
+    CallExpression(path) {
+      const name = getCalleeName(path);
+      if (!name) return;
+      const indices = assetArgumentIndices[name] || (/^load/.test(name) ? [0] : []);
+      for (const index of indices) {
+        if (index >= path.node.arguments.length) continue;
+        const arg = path.get(`arguments.${index}`);
+        if (Array.isArray(arg)) continue;
+        for (const { value, node } of getStringValues(arg)) {
+          addLocation(assets, value, node);
+        }
+      }
+    }
+  });
+  return assets;
+
+  function getCalleeName(path: NodePath<t.CallExpression>): string | null {
+    const { callee } = path.node;
+    if (t.isIdentifier(callee)) {
+      return callee.name;
+    }
+    if (
+      t.isMemberExpression(callee, { computed: false }) &&
+      t.isIdentifier(callee.object) &&
+      t.isIdentifier(callee.property) &&
+      instanceNames.has(callee.object.name) &&
+      path.scope.getBinding(callee.object.name)?.path.listKey === 'params'
+    ) {
+      return callee.property.name;
+    }
+    return null;
+  }
+}
+
+/** The constant string values that an expression can have, each with the
+ * expression that spells it. Returns an empty list if the value can't be
+ * determined statically. `visiting` holds the expressions that are being
+ * evaluated, in order to stop at circular definitions. */
+function getStringValues(
+  path: NodePath,
+  visiting = new Set<Node>()
+): { value: string; node: Node }[] {
+  const { node } = path;
+  if (visiting.has(node)) return [];
+  visiting.add(node);
+  try {
+    return evaluate();
+  } finally {
+    visiting.delete(node);
+  }
+
+  function evaluate(): { value: string; node: Node }[] {
+    if (t.isStringLiteral(node)) {
+      return [{ value: node.value, node }];
+    }
+    if (t.isTemplateLiteral(node)) {
+      let values = [''];
+      node.quasis.forEach(({ value: { cooked } }, i) => {
+        values = cooked == null ? [] : values.map(v => v + cooked);
+        if (i < node.expressions.length) {
+          const exprValues = getOperandValues(getChild(`expressions.${i}`));
+          values = values.flatMap(v => exprValues.map(e => v + e));
+        }
+      });
+      return values.map(value => ({ value, node }));
+    }
+    if (t.isBinaryExpression(node, { operator: '+' })) {
+      const left = getOperandValues(getChild('left'));
+      const right = getOperandValues(getChild('right'));
+      return left.flatMap(a => right.map(b => ({ value: a + b, node })));
+    }
+    if (t.isArrayExpression(node)) {
+      return node.elements.flatMap((_, i) => getValues(getChild(`elements.${i}`)));
+    }
+    // array[i]
+    if (t.isMemberExpression(node, { computed: true })) {
+      return getValues(getChild('object'));
+    }
+    if (t.isIdentifier(node)) {
+      return getIdentifierValues(node.name);
+    }
+    return [];
+  }
+
+  function getIdentifierValues(name: string): { value: string; node: Node }[] {
+    const binding = path.scope.getBinding(name);
+    if (!binding) return [];
+    const bindingPath = binding.path;
+    // for (const name of array) …
+    const loop = bindingPath.parentPath?.parentPath;
+    if (
+      bindingPath.isVariableDeclarator() &&
+      t.isIdentifier(bindingPath.node.id) &&
+      loop?.isForOfStatement() &&
+      loop.node.left === bindingPath.parent
+    ) {
+      return getValues(loop.get('right') as NodePath);
+    }
+    // array.forEach(name => …), array.map(function(name) {…})
+    const fn = bindingPath.parentPath;
+    const call = fn?.parentPath;
+    if (
+      bindingPath.listKey === 'params' &&
+      bindingPath.key === 0 &&
+      fn?.isFunction() &&
+      call?.isCallExpression() &&
+      call.node.arguments[0] === fn.node &&
+      t.isMemberExpression(call.node.callee, { computed: false }) &&
+      t.isIdentifier(call.node.callee.property) &&
+      ['forEach', 'map'].includes(call.node.callee.property.name)
+    ) {
+      return getValues(call.get('callee.object') as NodePath);
+    }
+    // const name = value
+    if (binding.constant && bindingPath.isVariableDeclarator()) {
+      return getValues(bindingPath.get('init') as NodePath);
+    }
+    return [];
+  }
+
+  function getChild(key: string): NodePath | null {
+    const child = path.get(key);
+    return !child || Array.isArray(child) || !child.node ? null : child;
+  }
+
+  function getValues(child: NodePath | null) {
+    return child && child.node ? getStringValues(child, visiting) : [];
+  }
+
+  /** The constant values of an operand of a string concatenation. Numbers are
+   * converted to strings, as `+` does. */
+  function getOperandValues(child: NodePath | null): string[] {
+    if (t.isNumericLiteral(child?.node)) {
+      return [String(child!.node.value)];
+    }
+    return getValues(child).map(({ value }) => value);
+  }
+}
+
+/** Tests whether the program is an ES module: it contains an `import` or
+ * `export` declaration. TypeScript type-only imports and exports are ignored,
+ * since they are removed from the transpiled script. */
+export function isModule(ast: t.File): boolean {
+  return ast.program.body.some(
+    stmt =>
+      (t.isImportDeclaration(stmt) && stmt.importKind !== 'type') ||
+      ((t.isExportNamedDeclaration(stmt) || t.isExportAllDeclaration(stmt)) &&
+        stmt.exportKind !== 'type') ||
+      t.isExportDefaultDeclaration(stmt)
+  );
+}
+
+/** Returns the module specifiers of the static `import` and `export … from`
+ * declarations, and of dynamic `import()` calls with string arguments. */
+export function findImports(ast: Node): Set<string> {
+  const sources = new Set<string>();
+  traverse(ast, {
+    ImportDeclaration(path) {
+      if (path.node.importKind !== 'type') {
+        sources.add(path.node.source.value);
+      }
+    },
+    ExportAllDeclaration(path) {
+      sources.add(path.node.source.value);
+    },
+    ExportNamedDeclaration(path) {
+      const { source } = path.node;
+      if (source && path.node.exportKind !== 'type') {
+        sources.add(source.value);
+      }
+    },
+    CallExpression(path) {
+      const { callee } = path.node;
+      const [arg] = path.node.arguments;
+      if (callee.type === 'Import' && arg?.type === 'StringLiteral') {
+        sources.add(arg.value);
+      }
+    }
+  });
+  return sources;
+}
+
+/** Returns the comments whose trimmed text matches `pattern`, and their
+ * locations. */
+export function findMatchingCommentLocations(
+  ast: t.File,
+  pattern: RegExp
+): { text: string; location: SourceLocation }[] {
+  return (ast.comments || []).flatMap(comment => {
+    const text = comment.value.trim();
+    const location = getSourceLocation((comment as unknown) as t.Node);
+    return pattern.test(text) && location ? [{ text, location }] : [];
+  });
 }
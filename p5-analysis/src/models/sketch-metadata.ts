@@ -0,0 +1,143 @@
+import { HTMLElement } from 'node-html-parser';
+
+/** Information that a sketch's author provides about it. An HTML sketch
+ * provides this with `<meta>` elements; a script, with fields in its header
+ * comment:
+ *
+ * ```js
+ * // Description: Circles that follow the mouse
+ * // Author: Ada Lovelace
+ * // Tags: interactive, generative
+ * // License: CC BY 4.0
+ * // Thumbnail: thumbnail.png
+ * // Created: 2021-10-04
+ * ```
+ */
+export type SketchMetadata = {
+  author?: string;
+  /** From `<meta name="keywords">`, or a `Tags:` field. A list is separated by
+   * commas. */
+  tags: string[];
+  license?: string;
+  /** The URL of an image that represents the sketch, or its path relative to
+   * the sketch directory. */
+  thumbnail?: string;
+  /** The date that the sketch was created, as it is written, such as
+   * `2021-10-04`. */
+  created?: string;
+};
+
+/** The fields that a header comment can contain. A field's value continues
+ * until a blank line, the next field, or a comment directive such as
+ * `library:`. */
+const headerCommentFields = [
+  'description',
+  'author',
+  'tags',
+  'license',
+  'thumbnail',
+  'created'
+];
+
+/** Returns the text of a script's header comment: its first run of `//` line
+ * comments, or, if it has one, its first block comment. The comment markers,
+ * and the `*` at the start of each line of a block comment, are removed. */
+export function getHeaderComment(source: string): string | null {
+  let text = null;
+  let m = source.match(/\n*((?:\/\/.*\n)+)/);
+  if (m) {
+    text = m[1].replace(/^\/\//gm, '').trim();
+  }
+  m = source.match(/\n*\/\*+(.+?)\*\//s);
+  if (m) {
+    text = m[1].replace(/^\s*\**/gm, '').trim();
+  }
+  return text;
+}
+
+/** Returns the value of the field `name`, such as `Description`, in a header
+ * comment. The field name is case-insensitive. */
+export function getHeaderCommentField(
+  comment: string,
+  name: string
+): string | undefined {
+  const lines = comment.split('\n').map(line => line.trim());
+  const fieldName = (line: string) => {
+    const m = line.match(/^(\w+):/);
+    return m && headerCommentFields.includes(m[1].toLowerCase())
+      ? m[1].toLowerCase()
+      : null;
+  };
+  const start = lines.findIndex(line => fieldName(line) === name.toLowerCase());
+  if (start < 0) return undefined;
+  const value = [lines[start].replace(/^\w+:\s*/, '')];
+  for (const line of lines.slice(start + 1)) {
+    if (!line || fieldName(line) || /^(library|p5-version):/.test(line)) break;
+    value.push(line);
+  }
+  return value.join('\n').trim() || undefined;
+}
+
+/** Reads the metadata from the header comment of a script. */
+export function parseScriptMetadata(source: string): SketchMetadata {
+  const comment = getHeaderComment(source);
+  const field = (name: string) =>
+    comment ? getHeaderCommentField(comment, name) : undefined;
+  return withoutUndefined({
+    author: field('author'),
+    tags: splitTags(field('tags')),
+    license: field('license'),
+    thumbnail: field('thumbnail'),
+    created: field('created')
+  });
+}
+
+/** Reads the metadata from the `<meta>` elements of an HTML document. The
+ * thumbnail can also come from `<meta property="og:image">`, and the creation
+ * date from `<meta name="dcterms.created">`. */
+export function parseHtmlMetadata(htmlRoot: HTMLElement): SketchMetadata {
+  const content = (names: readonly string[]) =>
+    names
+      .map(name =>
+        htmlRoot
+          .querySelectorAll('head meta')
+          .find(e => (e.attributes.name || e.attributes.property) === name)
+          ?.attributes.content?.trim()
+      )
+      .find(value => value);
+  return withoutUndefined({
+    author: content(['author']),
+    tags: splitTags(content(['keywords'])),
+    license: content(['license']),
+    thumbnail: content(['thumbnail', 'og:image']),
+    created: content(['created', 'dcterms.created'])
+  });
+}
+
+/** Combines metadata from two sources. Where both specify a property, the
+ * value from `primary` is used. */
+export function mergeMetadata(
+  primary: SketchMetadata,
+  secondary: SketchMetadata
+): SketchMetadata {
+  return {
+    ...secondary,
+    ...primary,
+    tags: primary.tags.length > 0 ? primary.tags : secondary.tags
+  };
+}
+
+function splitTags(text: string | undefined): string[] {
+  return text
+    ? text
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    : [];
+}
+
+function withoutUndefined(metadata: SketchMetadata): SketchMetadata {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as SketchMetadata;
+}
@@ -0,0 +1,121 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+/** A message from the main thread to a worker. */
+export type WorkerRequest<Task> = { id: number; task: Task };
+
+/** A message from a worker to the main thread. */
+export type WorkerResponse<Result> =
+  | { id: number; result: Result }
+  | { id: number; error: string };
+
+type PendingTask<Task, Result> = {
+  id: number;
+  task: Task;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+};
+
+/** A pool of worker threads that run tasks in parallel. Each worker runs
+ * `workerFile`, which receives WorkerRequest messages and replies with
+ * WorkerResponse messages. A worker's `workerData` is the value that
+ * `getWorkerData` returns when the worker is started.
+ *
+ * Workers are started as they are needed, and don't keep the process alive.
+ */
+export class WorkerPool<Task, Result> {
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, PendingTask<Task, Result>>();
+  private readonly queue: PendingTask<Task, Result>[] = [];
+  private nextId = 0;
+
+  constructor(
+    private readonly workerFile: string,
+    public readonly size: number,
+    private readonly getWorkerData: () => unknown = () => undefined
+  ) {}
+
+  run(task: Task): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /** Stops the workers. Tasks that are running are rejected. */
+  async close(): Promise<void> {
+    const workers = [...this.idle, ...this.busy.keys()];
+    this.idle.length = 0;
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker =
+        this.idle.pop() ||
+        (this.busy.size < this.size ? this.createWorker() : undefined);
+      if (!worker) return;
+      const pending = this.queue.shift()!;
+      this.busy.set(worker, pending);
+      worker.ref();
+      const request: WorkerRequest<Task> = { id: pending.id, task: pending.task };
+      worker.postMessage(request);
+    }
+  }
+
+  private createWorker(): Worker {
+    // When this package is run from its TypeScript sources (by ts-node or
+    // jest), the worker needs a TypeScript loader too.
+    const execArgv =
+      path.extname(this.workerFile) === '.ts'
+        ? ['--require', 'ts-node/register/transpile-only']
+        : [];
+    // Pass the environment explicitly, so that a worker sees changes that
+    // were made to this thread's copy of it (e.g. by a test runner).
+    const worker = new Worker(this.workerFile, {
+      env: process.env,
+      execArgv,
+      workerData: this.getWorkerData()
+    });
+    worker.on('message', (response: WorkerResponse<Result>) => {
+      const pending = this.busy.get(worker);
+      if (!pending || pending.id !== response.id) return;
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      worker.unref();
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+      this.dispatch();
+    });
+    worker.on('error', err => this.removeWorker(worker, err));
+    worker.on('exit', code =>
+      this.removeWorker(worker, new Error(`Worker stopped with exit code ${code}`))
+    );
+    return worker;
+  }
+
+  private removeWorker(worker: Worker, err: Error) {
+    const pending = this.busy.get(worker);
+    this.busy.delete(worker);
+    const i = this.idle.indexOf(worker);
+    if (i >= 0) this.idle.splice(i, 1);
+    if (pending) pending.reject(err);
+    this.dispatch();
+  }
+}
+
+/** The default number of workers: one fewer than the number of CPUs, so that
+ * the main thread has one to itself, and at most four. The
+ * `P5_ANALYSIS_WORKERS` environment variable overrides this; `0` disables the
+ * workers. */
+export function getDefaultPoolSize(): number {
+  const { P5_ANALYSIS_WORKERS } = process.env;
+  if (P5_ANALYSIS_WORKERS !== undefined && P5_ANALYSIS_WORKERS !== '') {
+    return Math.max(0, parseInt(P5_ANALYSIS_WORKERS, 10) || 0);
+  }
+  return Math.max(0, Math.min(4, os.cpus().length - 1));
+}
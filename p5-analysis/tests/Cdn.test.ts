@@ -1,7 +1,7 @@
-import { Cdn } from '../src';
+import { Cdn, getP5ImportPath, Library } from '../src';
 
 test('Cdn.length', () => {
-  expect(Cdn.all.length).toBe(3);
+  expect(Cdn.all.length).toBe(6);
 });
 
 describe('Cdn.parseUrl', () => {
@@ -9,6 +9,19 @@ describe('Cdn.parseUrl', () => {
     expect(Cdn.parseUrl('https://cdn.jsdelivr.net/npm/p5.rotate-about')?.packageName).toBe('p5.rotate-about');
     expect(Cdn.parseUrl('https://cdn.skypack.dev/p5.rotate-about')?.packageName).toBe('p5.rotate-about');
     expect(Cdn.parseUrl('https://unpkg.com/p5.rotate-about')?.packageName).toBe('p5.rotate-about');
+    expect(Cdn.parseUrl('https://esm.sh/p5.rotate-about')?.packageName).toBe('p5.rotate-about');
+    expect(Cdn.parseUrl('https://cdnjs.cloudflare.com/ajax/libs/ml5/0.12.2/ml5.min.js')).toEqual({ packageName: 'ml5', version: '0.12.2' });
+    expect(Cdn.parseUrl('https://cdn.jsdelivr.net/gh/osteele/p5.rotate-about@1.0/index.js')).toEqual({ packageName: 'osteele/p5.rotate-about', version: '1.0' });
+  });
+
+  test('maps CDN library names to npm package names', () => {
+    expect(Cdn.parseUrl('https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.min.js')?.packageName).toBe('p5');
+  });
+
+  test('parses file paths', () => {
+    expect(Cdn.parseUrlParts('https://unpkg.com/ml5@0.12.2/dist/ml5.min.js')).toMatchObject({ packageName: 'ml5', version: '0.12.2', path: 'dist/ml5.min.js' });
+    expect(Cdn.parseUrlParts('https://unpkg.com/ml5')).not.toHaveProperty('path');
+    expect(Cdn.parseUrlParts('https://example.com/ml5.min.js')).toBeNull();
   });
 
   test('recognizes version numbers', () => {
@@ -16,5 +29,70 @@ describe('Cdn.parseUrl', () => {
     expect(Cdn.parseUrl('https://cdn.jsdelivr.net/npm/p5.rotate-about@1.0')).toEqual({ packageName: 'p5.rotate-about', version: '1.0' });
     expect(Cdn.parseUrl('https://cdn.jsdelivr.net/npm/p5.rotate-about@1.0.0')).toEqual({ packageName: 'p5.rotate-about', version: '1.0.0' });
     expect(Cdn.parseUrl('https://cdn.jsdelivr.net/npm/p5.rotate-about@latest')).toEqual({ packageName: 'p5.rotate-about', version: 'latest' });
+    expect(Cdn.parseUrl('https://unpkg.com/ml5@0.12.2/dist/ml5.min.js')).toEqual({ packageName: 'ml5', version: '0.12.2' });
+  });
+
+  test('recognizes scoped packages', () => {
+    expect(Cdn.parseUrl('https://cdn.jsdelivr.net/npm/@tensorflow-models/pose-detection@2.0')).toEqual({ packageName: '@tensorflow-models/pose-detection', version: '2.0' });
+  });
+});
+
+describe('Cdn.withVersion', () => {
+  test('replaces the version', () => {
+    expect(Cdn.withVersion('https://unpkg.com/ml5@latest/dist/ml5.min.js', '0.12.2')).toBe('https://unpkg.com/ml5@0.12.2/dist/ml5.min.js');
+    expect(Cdn.withVersion('https://cdn.jsdelivr.net/npm/@mediapipe/pose', '0.5')).toBe('https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5');
+  });
+
+  test('ignores other URLs', () => {
+    expect(Cdn.withVersion('https://example.com/ml5.min.js', '0.12.2')).toBeNull();
+  });
+});
+
+describe('Cdn.buildUrl', () => {
+  const parts = { packageName: 'p5', version: '1.4.0', path: 'lib/p5.min.js' };
+
+  test('builds npm CDN URLs', () => {
+    expect(Cdn.find('jsdelivr')!.buildUrl(parts)).toBe('https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.min.js');
+    expect(Cdn.find('unpkg')!.buildUrl({ packageName: 'ml5' })).toBe('https://unpkg.com/ml5');
+    expect(Cdn.find('esm.sh')!.buildUrl(parts)).toBe('https://esm.sh/p5@1.4.0/lib/p5.min.js?raw');
+  });
+
+  test('builds cdnjs URLs', () => {
+    expect(Cdn.find('cdnjs')!.buildUrl(parts)).toBe('https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.min.js');
+    expect(Cdn.find('cdnjs')!.buildUrl({ ...parts, version: '1.4' })).toBeNull();
+    expect(Cdn.find('cdnjs')!.buildUrl({ packageName: 'p5', version: '1.4.0' })).toBeNull();
+  });
+
+  test('builds GitHub CDN URLs', () => {
+    expect(Cdn.find('jsdelivr-gh')!.buildUrl({ packageName: 'osteele/p5.rotate-about', path: 'index.js' })).toBe('https://cdn.jsdelivr.net/gh/osteele/p5.rotate-about/index.js');
+  });
+});
+
+describe('Cdn.preferred', () => {
+  afterEach(() => {
+    Cdn.preferred = null;
+  });
+
+  test('rewrites URLs to the preferred CDN', () => {
+    Cdn.preferred = 'unpkg';
+    expect(Cdn.rewriteUrl('https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.min.js')).toBe('https://unpkg.com/p5@1.4.0/lib/p5.min.js');
+    expect(Cdn.rewriteUrl('https://example.com/p5.min.js')).toBe('https://example.com/p5.min.js');
+    expect(Cdn.rewriteUrl('https://cdn.jsdelivr.net/gh/osteele/p5.rotate-about/index.js')).toBe('https://cdn.jsdelivr.net/gh/osteele/p5.rotate-about/index.js');
+  });
+
+  test("keeps URLs that the preferred CDN can't serve", () => {
+    Cdn.preferred = 'cdnjs';
+    expect(Cdn.rewriteUrl('https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.min.js')).toBe('https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.min.js');
+    expect(Cdn.rewriteUrl('https://cdn.jsdelivr.net/npm/p5@1.4/lib/p5.min.js')).toBe('https://cdn.jsdelivr.net/npm/p5@1.4/lib/p5.min.js');
+  });
+
+  test('applies to library import paths', () => {
+    Cdn.preferred = 'unpkg';
+    expect(Library.find({ name: 'p5.sound' })!.getImportPath('1.4.0')).toBe('https://unpkg.com/p5@1.4.0/lib/addons/p5.sound.min.js');
+    expect(getP5ImportPath('1.4.0')).toBe('https://unpkg.com/p5@1.4.0/lib/p5.min.js');
+  });
+
+  test('rejects unknown CDNs', () => {
+    expect(() => (Cdn.preferred = 'example')).toThrow('Unknown CDN: example');
   });
 });
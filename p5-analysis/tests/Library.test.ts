@@ -1,4 +1,11 @@
-import { Library } from '../src';
+import path from 'path';
+import {
+  Category,
+  Library,
+  RegistryValidationError,
+  Script,
+  setRegistryValidationMode
+} from '../src';
 
 const testfilesPath = './tests/testdata';
 
@@ -60,6 +67,20 @@ describe('Library.inferLibrariesFromScripts', () => {
     expect(inferLibraries(`p5.Speech.js`)).toEqual(['p5.speech']);
   });
 
+  test('infers libraries from instance-mode property references', () => {
+    // p5.gui and p5.touchgui both define createGui
+    expect(inferLibraries(`instance-mode.js`)).toEqual(['p5.sound']);
+    expect(Library.findAmbiguousReferences([`${dir}/instance-mode.js`])).toEqual([
+      { name: 'createGui', libraries: ['p5.gui', 'p5.touchgui'] }
+    ]);
+  });
+
+  test('infers libraries from imported modules', () => {
+    expect(
+      Library.inferFromScripts([`${testfilesPath}/modules/sketch.js`]).map(lib => lib.name)
+    ).toEqual(['p5.sound']);
+  });
+
   test('infers libraries from comment directives', () => {
     const libs = Library.inferFromScripts([
       `${testfilesPath}/library-config-comments.js`
@@ -70,5 +91,369 @@ describe('Library.inferLibrariesFromScripts', () => {
       'https://unpkg.com/@mediapipe/pose',
       'https://cdn.jsdelivr.net/npm/@tensorflow-models/pose-detection'
     ]);
+    expect(libs.slice(1).map(lib => [lib.name, lib.homepage])).toEqual([
+      ['@mediapipe/pose', 'https://www.npmjs.com/package/@mediapipe/pose'],
+      [
+        '@tensorflow-models/pose-detection',
+        'https://www.npmjs.com/package/@tensorflow-models/pose-detection'
+      ]
+    ]);
+    expect(Library.all).not.toContain(libs[1]);
+  });
+});
+
+describe('Library.fromUrl', () => {
+  const metadata = (url: string) => {
+    const { name, packageName, version, repository, homepage } = Library.fromUrl(url);
+    return { name, packageName, version, repository, homepage };
+  };
+
+  test('recognizes CDN URLs', () => {
+    expect(metadata('https://unpkg.com/p5.widgets@2.0.0/dist/p5.widgets.js')).toEqual({
+      name: 'p5.widgets',
+      packageName: 'p5.widgets',
+      version: '2.0.0',
+      repository: undefined,
+      homepage: 'https://www.npmjs.com/package/p5.widgets'
+    });
+  });
+
+  test('names an add-on file after the file, not the package', () => {
+    const expected = {
+      name: 'p5.sound',
+      packageName: undefined,
+      version: undefined,
+      repository: undefined,
+      homepage: ''
+    };
+    expect(
+      metadata(
+        'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/addons/p5.sound.min.js'
+      )
+    ).toEqual(expected);
+    expect(
+      metadata('https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/addons/p5.sound.min.js')
+    ).toEqual(expected);
+  });
+
+  test('recognizes GitHub URLs', () => {
+    const expected = {
+      name: 'p5.widgets',
+      packageName: undefined,
+      version: '2.0.0',
+      repository: 'https://github.com/example/p5.widgets',
+      homepage: 'https://github.com/example/p5.widgets'
+    };
+    expect(
+      metadata('https://cdn.jsdelivr.net/gh/example/p5.widgets@2.0.0/p5.widgets.js')
+    ).toEqual(expected);
+    expect(
+      metadata(
+        'https://raw.githubusercontent.com/example/p5.widgets/2.0.0/p5.widgets.js'
+      )
+    ).toEqual(expected);
+    expect(
+      metadata('https://github.com/example/p5.widgets/blob/main/p5.widgets.js')
+    ).toEqual({ ...expected, version: undefined });
+  });
+
+  test('recognizes GitHub Pages URLs', () => {
+    expect(
+      metadata('https://example.github.io/p5.widgets/p5.widgets.js')
+    ).toMatchObject({
+      name: 'p5.widgets',
+      homepage: 'https://example.github.io/p5.widgets/'
+    });
+  });
+
+  test('uses the file name of other URLs', () => {
+    expect(metadata('https://example.com/lib/p5.widgets.min.js?v=2').name).toBe(
+      'p5.widgets'
+    );
+  });
+});
+
+describe('library versions', () => {
+  test('comment directives pin versions', () => {
+    const libs = Library.inferFromScripts([
+      `${testfilesPath}/library-inference/pinned.js`
+    ]);
+    expect(libs.map(lib => [lib.name, lib.version])).toEqual([
+      ['ml5.js', '0.12.2'],
+      ['p5.sound', undefined]
+    ]);
+    expect(libs[0].importPath).toBe('https://unpkg.com/ml5@0.12.2/dist/ml5.min.js');
+  });
+
+  test('withVersion', () => {
+    const lib = Library.find({ name: 'ml5.js' })!;
+    expect(lib.version).toBeUndefined();
+    expect(lib.withVersion('0.12.2')).toBe(lib.withVersion('0.12.2'));
+    expect(lib.withVersion('0.12.2').withVersion('0.11.0').version).toBe('0.11.0');
+    expect(Library.all).not.toContain(lib.withVersion('0.12.2'));
+  });
+
+  test('recommendedVersion', () => {
+    expect(Library.find({ name: 'p5.touchgui' })!.recommendedVersion).toBe('0.5.2');
+    expect(Library.find({ name: 'ml5.js' })!.recommendedVersion).toBeUndefined();
+  });
+});
+
+describe('project library registries', () => {
+  const inferLibraries = (file: string) =>
+    Library.inferFromScripts([`${testfilesPath}/${file}`], { ifNotExists: 'error' });
+
+  test('reads p5-libraries.json', () => {
+    const libs = inferLibraries('project-libraries/sketch.js');
+    expect(libs.map(lib => lib.name)).toEqual(['p5.sound', 'p5.studio']);
+    expect(libs[1].importPath).toBe('https://example.com/p5.studio.js');
+    expect(libs[1].category!.name).toBe('Project');
+    expect(libs[1].category!.directory).toBe(
+      path.resolve(`${testfilesPath}/project-libraries`)
+    );
+  });
+
+  test('finds the registry in an ancestor directory', () => {
+    expect(
+      inferLibraries('project-libraries/nested/sketch.js').map(lib => lib.name)
+    ).toEqual(['p5.studio']);
+  });
+
+  test('reads the p5 property of package.json', () => {
+    const [lib] = inferLibraries('package-json-libraries/sketch.js');
+    expect(lib.name).toBe('p5.studio');
+    expect(lib.importPath).toBe('https://unpkg.com/p5.studio');
+  });
+
+  test('project libraries take precedence over bundled libraries', () => {
+    const dir = `${testfilesPath}/project-libraries`;
+    const lib = Library.find({ name: 'p5.sound', dir })!;
+    expect(lib.importPath).toBe('https://example.com/mirror/p5.sound.js');
+    // properties that the project registry omits are inherited
+    expect(lib.defines?.globals).toContain('loadSound');
+    // the bundled library is unchanged
+    expect(Library.find({ name: 'p5.sound' })!.importPath).toMatch(/^https:\/\/cdn/);
+  });
+
+  test("project libraries don't apply outside the project", () => {
+    expect(Library.find({ name: 'p5.studio', dir: testfilesPath })).toBeNull();
+    expect(Library.find({ name: 'p5.studio' })).toBeNull();
+  });
+});
+
+describe('library registry schema validation', () => {
+  const dir = `${testfilesPath}/registry-schema`;
+
+  afterEach(() => {
+    setRegistryValidationMode('warn');
+  });
+
+  test('the bundled registries are valid', () => {
+    expect(Category.findRegistryErrors()).toEqual([]);
+  });
+
+  test('reports the file, JSON pointer, and message of each error', () => {
+    const file = path.resolve(dir, 'p5-libraries.json');
+    expect(
+      Category.findRegistryErrors(dir).map(({ file, pointer, message }) => ({
+        file,
+        pointer,
+        message
+      }))
+    ).toEqual([
+      { file, pointer: '/0/homepage', message: 'must match the pattern ^https?:' },
+      { file, pointer: '/0/priority', message: 'must be a number' },
+      { file, pointer: '/0/defines/p5s', message: 'is not an allowed property' },
+      { file, pointer: '/1', message: 'must have the property "description"' }
+    ]);
+  });
+
+  test('strict mode refuses an invalid registry; warn mode loads it', () => {
+    setRegistryValidationMode('strict');
+    expect(() => Library.find({ name: 'p5.typo', dir })).toThrow(
+      /p5-libraries.json#\/0\/defines\/p5s: is not an allowed property/
+    );
+    expect(() => Library.find({ name: 'p5.typo', dir })).toThrow(
+      RegistryValidationError
+    );
+
+    setRegistryValidationMode('warn');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      expect(Library.find({ name: 'p5.typo', dir })).toBeInstanceOf(Library);
+      expect(warn).toHaveBeenCalledTimes(4);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('library dependencies', () => {
+  const inferLibraries = (file: string) =>
+    Library.inferFromScripts([`${testfilesPath}/library-dependencies/${file}`]);
+
+  test('adds required libraries, in dependency order', () => {
+    const libs = inferLibraries('sketch.js');
+    expect(libs.map(lib => lib.name)).toEqual(['ml5.js', 'widget-core', 'p5.widgets']);
+  });
+
+  test('ignores dependency cycles and missing libraries', () => {
+    expect(inferLibraries('cycle.js').map(lib => lib.name)).toEqual([
+      'cycle-b',
+      'cycle-a'
+    ]);
+  });
+
+  test('scripts and stylesheets', () => {
+    const [lib] = inferLibraries('sketch.js').slice(-1);
+    expect(lib.getScriptPaths()).toEqual([
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.0.0/dist/p5.widgets.min.js',
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.0.0/dist/p5.widgets.themes.js'
+    ]);
+    expect(lib.getStylesheetPaths()).toEqual([
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.0.0/dist/p5.widgets.css'
+    ]);
+    expect(Library.find({ name: 'p5.sound' })!.getStylesheetPaths()).toEqual([]);
+  });
+
+  test('pinned libraries pin their assets', () => {
+    const [lib] = inferLibraries('pinned.js').slice(-1);
+    expect(lib.version).toBe('2.1.0');
+    expect(lib.getScriptPaths()).toEqual([
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.1.0/dist/p5.widgets.min.js',
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.1.0/dist/p5.widgets.themes.js'
+    ]);
+    expect(lib.getStylesheetPaths()).toEqual([
+      'https://cdn.jsdelivr.net/npm/p5.widgets@2.1.0/dist/p5.widgets.css'
+    ]);
+  });
+});
+
+test('library lifecycle properties', () => {
+  const dir = `${testfilesPath}/library-lifecycle`;
+  const oldDom = Library.find({ name: 'old-dom', dir })!;
+  expect(oldDom.deprecated).toBe('p5.js includes these functions');
+  expect(oldDom.replacedBy).toBe('new-dom');
+  expect(oldDom.tags).toEqual(['dom']);
+  expect(oldDom.supportsP5Version('0.9.0')).toBe(true);
+
+  const shapes = Library.find({ name: 'legacy-shapes', dir })!;
+  expect(shapes.deprecated).toBeUndefined();
+  expect(shapes.supportsP5Version('0.10.2')).toBe(true);
+  expect(shapes.supportsP5Version('1.4')).toBe(false);
+
+  // bundled libraries
+  const bots = Library.find({ name: 'p5.bots' })!;
+  expect(bots.deprecated).toBeTruthy();
+  expect(bots.replacedBy).toBe('p5.serial');
+  expect(bots.supportsP5Version('1.4')).toBe(false);
+  expect(Library.find({ name: 'p5.sound' })!.deprecated).toBeUndefined();
+});
+
+describe('library ambiguity', () => {
+  const dir = `${testfilesPath}/library-ambiguity`;
+  const inferLibraries = (file: string) =>
+    Library.inferFromScripts([`${dir}/${file}`]).map(lib => lib.name);
+
+  test('reports names that more than one library defines', () => {
+    expect(inferLibraries('ambiguous.js')).toEqual([]);
+    expect(Library.findAmbiguousReferences([`${dir}/ambiguous.js`])).toEqual([
+      { name: 'addSprite', libraries: ['sprites-a', 'sprites-b'] }
+    ]);
+  });
+
+  test('prefers the library with the highest priority', () => {
+    expect(inferLibraries('priority.js')).toEqual(['panels-b']);
+  });
+
+  test('prefers the library that matches the most references', () => {
+    expect(inferLibraries('co-occurrence.js')).toEqual(['sprites-a']);
+    expect(Library.findAmbiguousReferences([`${dir}/co-occurrence.js`])).toEqual([]);
+  });
+
+  test('comment directives name or exclude libraries', () => {
+    expect(inferLibraries('directive.js')).toEqual(['sprites-b']);
+    expect(inferLibraries('exclusion.js')).toEqual(['sprites-a']);
+    expect(Library.findAmbiguousReferences([`${dir}/exclusion.js`])).toEqual([]);
+  });
+});
+
+describe('Library.explainInferenceFromScripts', () => {
+  const explain = (file: string) =>
+    Library.explainInferenceFromScripts([
+      `${testfilesPath}/${file}`
+    ]).map(({ library, reasons }) => ({ library: library.name, reasons }));
+
+  test('global references', () => {
+    const file = `${testfilesPath}/library-inference/dat.js`;
+    expect(explain('library-inference/dat.js')).toEqual([
+      {
+        library: 'dat.gui',
+        reasons: [
+          {
+            type: 'global',
+            name: 'dat',
+            locations: [expect.objectContaining({ file, line: 3, column: 14 })]
+          }
+        ]
+      }
+    ]);
+  });
+
+  test('p5 properties', () => {
+    expect(explain('library-inference/p5.Pulse.js')).toEqual([
+      {
+        library: 'p5.sound',
+        reasons: [
+          {
+            type: 'p5Property',
+            name: 'Pulse',
+            locations: [expect.objectContaining({ line: 7 })]
+          }
+        ]
+      }
+    ]);
+  });
+
+  test('directives', () => {
+    const [ml5, sound] = explain('library-inference/pinned.js');
+    expect(ml5.reasons.map(reason => reason.type)).toEqual(['global', 'directive']);
+    expect(sound).toEqual({
+      library: 'p5.sound',
+      reasons: [
+        {
+          type: 'directive',
+          directive: 'library: ml5@0.12.2, p5.sound',
+          locations: [
+            expect.objectContaining({
+              file: `${testfilesPath}/library-inference/pinned.js`,
+              line: 1
+            })
+          ]
+        }
+      ]
+    });
+  });
+
+  test('dependencies', () => {
+    expect(explain('library-dependencies/sketch.js').map(i => i.reasons[0])).toEqual([
+      { type: 'dependency', requiredBy: ['widget-core'] },
+      { type: 'dependency', requiredBy: ['p5.widgets'] },
+      expect.objectContaining({ type: 'global', name: 'createWidget' })
+    ]);
+  });
+});
+
+test('Library.extractDefines', () => {
+  const script = Script.fromFile(`${testfilesPath}/library-source/p5.example.js`);
+  expect(Library.extractDefines(script)).toEqual({
+    globals: [
+      'createExample',
+      'exampleHelper',
+      'exampleMode',
+      'loadExample',
+      'removeExample'
+    ],
+    p5: ['EXAMPLE_VERSION', 'Example']
   });
 });
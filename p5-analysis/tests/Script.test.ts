@@ -1,3 +1,7 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Library } from '../src';
 import { Script } from '../src/models/Script';
 
 test('Script.fromFile', () => {
@@ -7,6 +11,25 @@ test('Script.fromFile', () => {
   expect(script.filename).toBe(filePath);
 });
 
+test('Script.fromFile reuses the analysis of a large file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-script-'));
+  const filePath = path.join(dir, 'sketch.js');
+  const calls = Array.from(
+    { length: 100 },
+    (_, i) => `  circle(mouseX + ${i}, mouseY, width / ${i + 1});`
+  );
+  fs.writeFileSync(filePath, `function draw() {\n${calls.join('\n')}\n}\n`);
+  try {
+    expect(fs.statSync(filePath).size).toBeGreaterThan(4096);
+    const { refs } = Script.fromFile(filePath);
+    // The second analysis is the same object, so it came from the in-memory
+    // cache, instead of from parsing the file or reading the disk cache.
+    expect(Script.fromFile(filePath).refs).toBe(refs);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
 test('Script.getErrors', () => {
   expect(() => Script.fromSource('const const;').defs).toThrow(
     /Unexpected keyword 'const'/
@@ -73,6 +96,25 @@ describe('Script..defs', () => {
 
   test('finds class definitions', () =>
     expect(Script.fromSource('class C {}').defs).toEqual(new Map([['C', 'class']])));
+
+  test('finds window property assignments', () => {
+    expect(
+      Script.fromSource('function f() {}; window.setup = f; window.draw = () => {}')
+        .defs
+    ).toEqual(
+      new Map([
+        ['f', 'function'],
+        ['setup', 'function'],
+        ['draw', 'function']
+      ])
+    );
+    expect(Script.fromSource('window.C = class {}; window.v = 1').defs).toEqual(
+      new Map([
+        ['C', 'class'],
+        ['v', 'variable']
+      ])
+    );
+  });
 });
 
 describe('Script.refs', () => {
@@ -153,7 +195,7 @@ describe('Script.refs', () => {
   test('finds references in array spread', () => {
     expect(free('let a = [b, ...c, ...d]')).toEqual(['b', 'c', 'd']);
   });
-  test.skip('finds references in object spread', () => {
+  test('finds references in object spread', () => {
     expect(free('let a = {b: c, ...d, ...e}')).toEqual(['c', 'd', 'e']);
   });
 
@@ -164,6 +206,119 @@ describe('Script.refs', () => {
   });
 });
 
+describe('Script.loadTimeRefs', () => {
+  const free = (code: string) =>
+    Array.from(Script.fromSource(code).loadTimeRefs).sort();
+
+  test('finds top-level references', () => {
+    expect(free('let a = b + c')).toEqual(['b', 'c']);
+    expect(free('f(a)')).toEqual(['a', 'f']);
+    expect(free('class A extends B {}')).toEqual(['B']);
+  });
+
+  test('ignores references in function bodies', () => {
+    expect(free('function f() {g}')).toEqual([]);
+    expect(free('let f = () => g; h')).toEqual(['h']);
+    expect(free('class A { m() {g} }')).toEqual([]);
+  });
+});
+
+test('Script.classifyGlobalReferences', () => {
+  const script = Script.fromSource(
+    'function setup() { createCanvas(100, 100); loadSound(f); console.log(g); }\nlet f;'
+  );
+  const classifications = script.classifyGlobalReferences({
+    p5Version: '1.4',
+    libraries: Library.all
+  });
+  expect(Object.fromEntries(classifications)).toEqual({
+    createCanvas: 'p5',
+    loadSound: 'library',
+    console: 'browser',
+    g: 'unknown'
+  });
+});
+
+test('Script.findGlobalReferenceLocations', () => {
+  const script = Script.fromSource('let a = f(b);\nfunction g() {\n  h(a, c);\n}');
+  expect(script.findGlobalReferenceLocations()).toEqual([
+    { name: 'f', line: 1, column: 8, range: [8, 9], loadTime: true, call: true },
+    { name: 'b', line: 1, column: 10, range: [10, 11], loadTime: true, call: false },
+    { name: 'h', line: 3, column: 2, range: [31, 32], loadTime: false, call: true },
+    { name: 'c', line: 3, column: 7, range: [36, 37], loadTime: false, call: false }
+  ]);
+});
+
+test('Script.findGlobalDeclarationLocations', () => {
+  const script = Script.fromSource(
+    'function f() {}\nconst g = () => {};\nvar v = 1;\nclass C {}'
+  );
+  expect(script.findGlobalDeclarationLocations()).toEqual([
+    {
+      name: 'f',
+      kind: 'hoisted',
+      type: 'function',
+      line: 1,
+      column: 9,
+      range: [9, 10]
+    },
+    { name: 'g', kind: 'const', type: 'function', line: 2, column: 6, range: [22, 23] },
+    { name: 'v', kind: 'var', type: 'variable', line: 3, column: 4, range: [40, 41] },
+    { name: 'C', kind: 'let', type: 'class', line: 4, column: 6, range: [53, 54] }
+  ]);
+});
+
+describe('Script source locations', () => {
+  const source = [
+    'let img;',
+    'function preload() {',
+    '  img = loadImage("cat.png");',
+    '}',
+    'function draw() {',
+    '  image(img, mouseX, mouseY);',
+    '  new p5.Vector(1, 2);',
+    '}'
+  ].join('\n');
+  const script = Script.fromSource(source);
+
+  test('locates definitions', () => {
+    expect(script.defLocations.get('img')).toEqual([
+      { line: 1, column: 4, range: [4, 7] }
+    ]);
+    expect(script.defLocations.get('draw')).toEqual([
+      { line: 5, column: 9, range: [71, 75] }
+    ]);
+  });
+
+  test('locates references', () => {
+    expect(script.refLocations.get('loadImage')).toEqual([
+      { line: 3, column: 8, range: [38, 47] }
+    ]);
+    expect(script.refLocations.get('mouseX')).toEqual([
+      { line: 6, column: 13, range: [93, 99] }
+    ]);
+    expect([...script.refLocations.keys()].sort()).toEqual([...script.refs].sort());
+  });
+
+  test('locates load call arguments', () => {
+    expect(script.loadCallArgumentLocations.get('cat.png')).toEqual([
+      { line: 3, column: 18, range: [48, 57] }
+    ]);
+  });
+
+  test('locates p5 property references', () => {
+    expect(script.p5propRefLocations.get('Vector')).toEqual([
+      { line: 7, column: 6, range: [116, 125] }
+    ]);
+  });
+
+  test('includes the file name', () => {
+    const script = Script.fromFile('./tests/testdata/library-inference/loadSound.js');
+    const [location] = [...script.refLocations.values()][0];
+    expect(location.file).toBe('./tests/testdata/library-inference/loadSound.js');
+  });
+});
+
 describe('Script.p5properties', () => {
   const props = (source: string) =>
     Array.from(Script.fromSource(source).p5propRefs).sort();
@@ -183,6 +338,79 @@ describe('Script.p5properties', () => {
   });
 });
 
+describe('Script.findP5PropertyAssignments', () => {
+  const assignments = (source: string) => {
+    const { prototype, p5 } = Script.fromSource(source).findP5PropertyAssignments();
+    return { prototype: [...prototype].sort(), p5: [...p5].sort() };
+  };
+
+  test('finds prototype and static property assignments', () => {
+    expect(assignments('p5.prototype.f = function() {}; p5.C = class {}')).toEqual({
+      prototype: ['f'],
+      p5: ['C']
+    });
+    expect(assignments("(function(p5) { p5.prototype['g'] = 1 })(p5)")).toEqual({
+      prototype: ['g'],
+      p5: []
+    });
+  });
+
+  test('finds Object.assign(p5.prototype, …)', () => {
+    expect(
+      assignments('Object.assign(p5.prototype, { f() {}, g: 1, ...other })')
+    ).toEqual({ prototype: ['f', 'g'], p5: [] });
+  });
+
+  test('ignores other assignments', () => {
+    expect(assignments('p5.prototype = {}; q5.f = 1; p5[name] = 1')).toEqual({
+      prototype: [],
+      p5: []
+    });
+  });
+});
+
+describe('Script instance mode', () => {
+  test('finds the p5 instance parameter', () => {
+    const names = (source: string) =>
+      Array.from(Script.fromSource(source).p5InstanceNames).sort();
+    expect(names('function setup() {}')).toEqual([]);
+    expect(names('new p5(p => {})')).toEqual(['p']);
+    expect(names('new p5(function(sketch) {}, "container")')).toEqual(['sketch']);
+    expect(names('let s = function(p) {}; new p5(s)')).toEqual(['p']);
+    expect(names('const s = p => {}; new p5(s)')).toEqual(['p']);
+    expect(names('function s(p) {}; new p5(s)')).toEqual(['p']);
+    expect(names('class p5 {}; new p5(p => {})')).toEqual([]);
+  });
+
+  test('finds instance definitions and references', () => {
+    const script = Script.fromSource(`
+      new p5(p => {
+        p.setup = function() { p.createCanvas(100, 100); };
+        p.draw = () => { p.circle(p.mouseX, p.mouseY, 20); p.drawShape(); };
+        p.drawShape = drawShape;
+        p.size = 10;
+      });
+      function drawShape() {}
+      function f(p) { p.loadSound(); }
+    `);
+    expect(script.instanceDefs).toEqual(
+      new Map([
+        ['setup', 'function'],
+        ['draw', 'function'],
+        ['drawShape', 'function'],
+        ['size', 'variable']
+      ])
+    );
+    expect(Array.from(script.instanceRefs).sort()).toEqual([
+      'circle',
+      'createCanvas',
+      'drawShape',
+      'mouseX',
+      'mouseY'
+    ]);
+  });
+});
+
 describe('Script.loadCallArguments', () => {
   const calls = (source: string) =>
     Array.from(Script.fromSource(source).loadCallArguments).sort();
@@ -208,4 +436,138 @@ describe('Script.loadCallArguments', () => {
   test('finds arguments in class methods', () => {
     expect(calls('class C { f() {loadImage("s")} }')).toEqual(['s']);
   });
+
+  test('folds constant expressions', () => {
+    expect(calls('loadImage(`a.png`)')).toEqual(['a.png']);
+    expect(calls("loadImage('img/' + 'a.png')")).toEqual(['img/a.png']);
+    expect(calls("loadImage('frame' + 1 + '.png')")).toEqual(['frame1.png']);
+    expect(calls("const dir = 'img/'; loadImage(`${dir}a.png`)")).toEqual([
+      'img/a.png'
+    ]);
+    expect(calls('loadImage(`${dir}a.png`)')).toEqual([]);
+  });
+
+  test('follows constant variables', () => {
+    expect(calls("const file = 'a.png'; loadImage(file)")).toEqual(['a.png']);
+    expect(calls("let file = 'a.png'; loadImage(file)")).toEqual(['a.png']);
+    expect(calls("let file = 'a.png'; file = 'b.png'; loadImage(file)")).toEqual([]);
+    expect(calls('let a = b, b = a; loadImage(a)')).toEqual([]);
+  });
+
+  test('finds the elements of iterated arrays', () => {
+    const files = "const files = ['a.png', 'b.png'];";
+    expect(calls(`${files} for (const f of files) loadImage(f)`)).toEqual([
+      'a.png',
+      'b.png'
+    ]);
+    expect(calls(`${files} files.forEach(f => loadImage(f))`)).toEqual([
+      'a.png',
+      'b.png'
+    ]);
+    expect(
+      calls(`${files} let images = files.map(function(f) { return loadImage(f); })`)
+    ).toEqual(['a.png', 'b.png']);
+    expect(
+      calls(`${files} for (let i = 0; i < files.length; i++) loadImage(files[i])`)
+    ).toEqual(['a.png', 'b.png']);
+  });
+
+  test('finds arguments to instance-mode calls', () => {
+    expect(calls('new p5(p => { p.preload = () => p.loadImage("a.png"); })')).toEqual([
+      'a.png'
+    ]);
+    expect(calls('obj.loadImage("a.png")')).toEqual([]);
+  });
+
+  test('finds arguments to media and shader functions', () => {
+    expect(calls('createVideo(["a.mp4", "a.webm"])')).toEqual(['a.mp4', 'a.webm']);
+    expect(calls('createAudio("a.mp3")')).toEqual(['a.mp3']);
+    expect(calls('createImg("a.png", "alt text")')).toEqual(['a.png']);
+    expect(calls('loadShader("shader.vert", "shader.frag")')).toEqual([
+      'shader.frag',
+      'shader.vert'
+    ]);
+    expect(calls('createDiv("a.png")')).toEqual([]);
+  });
+});
+
+describe('Script TypeScript', () => {
+  const filePath = './tests/testdata/typescript/sketch.ts';
+
+  test('parses TypeScript files', () => {
+    const script = Script.fromFile(filePath);
+    expect(script.isTypeScript).toBe(true);
+    expect(script.getErrors()).toEqual([]);
+    expect(Script.fromSource('let a: number;').getErrors()).toHaveLength(1);
+  });
+
+  test('ignores type references', () => {
+    const script = Script.fromFile(filePath);
+    expect(script.defs.get('setup')).toBe('function');
+    expect(Array.from(script.refs).sort()).toEqual([
+      'circle',
+      'color',
+      'createCanvas',
+      'fill',
+      'loadSound',
+      'mouseX',
+      'mouseY',
+      'random',
+      'windowHeight',
+      'windowWidth'
+    ]);
+  });
+
+  test('type-only imports do not make a module', () => {
+    expect(Script.fromFile(filePath).isModule).toBe(false);
+    expect(Script.fromFile(filePath).imports).toEqual(new Set());
+  });
+});
+
+describe('Script modules', () => {
+  test('isModule', () => {
+    expect(Script.fromSource('let a;').isModule).toBe(false);
+    expect(Script.fromSource('import a from "./a.js";').isModule).toBe(true);
+    expect(Script.fromSource('export const a = 1;').isModule).toBe(true);
+  });
+
+  test('parses modules', () => {
+    expect(Script.fromSource('import a from "./a.js"; a(b)').getErrors()).toEqual([]);
+    expect(Script.fromSource('import a from "./a.js"; a(b)').refs).toEqual(
+      new Set(['b'])
+    );
+  });
+
+  test('imports', () => {
+    const imports = (source: string) =>
+      Array.from(Script.fromSource(source).imports).sort();
+    expect(imports('let a;')).toEqual([]);
+    expect(imports('import a from "./a.js"; import * as b from "b";')).toEqual([
+      './a.js',
+      'b'
+    ]);
+    expect(imports('export * from "./a.js"; export { b } from "../b.js";')).toEqual([
+      '../b.js',
+      './a.js'
+    ]);
+    expect(imports('export const a = 1; import("./c.js"); import(name)')).toEqual([
+      './c.js'
+    ]);
+  });
+
+  test('getImportedFiles', () => {
+    expect(
+      Script.fromSource(
+        'import a from "./a.js"; import b from "../b.js"; import c from "c"; import d from "https://example.com/d.js";'
+      ).getImportedFiles()
+    ).toEqual(['a.js', '../b.js']);
+  });
+
+  test('getModuleDependencies', () => {
+    const dir = './tests/testdata/modules';
+    expect(Script.getModuleDependencies(`${dir}/sketch.js`).sort()).toEqual(
+      ['shapes.js', 'palette.js', 'sound.js'].map(name => path.join(dir, name)).sort()
+    );
+    expect(Script.getModuleDependencies(`${dir}/palette.js`)).toEqual([]);
+  });
 });
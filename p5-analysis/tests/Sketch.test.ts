@@ -1,7 +1,15 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import rimraf from 'rimraf';
-import { Sketch, SketchStructureType } from '../src';
+import {
+  Library,
+  LibraryInUseError,
+  setDefaultP5Version,
+  Sketch,
+  SketchStructureType
+} from '../src';
+import { p5Version } from '../src/models/p5-version';
 
 const testfilesPath = './tests/testdata';
 
@@ -57,8 +65,21 @@ describe('Sketch.isSketchScriptFile', () => {
     expect(await Sketch.isSketchScriptFile(f`circles.js`)).toBe(true);
   });
 
-  test.skip('recognizes sketch script modules', async () => {
+  test('recognizes instance-mode sketches', async () => {
     expect(await Sketch.isSketchScriptFile(g`instance-mode.js`)).toBe(true);
+    expect(await Sketch.isSketchScriptFile(f`library-inference/instance-mode.js`)).toBe(
+      true
+    );
+  });
+
+  test('recognizes ES module sketches', async () => {
+    expect(await Sketch.isSketchScriptFile(f`modules/sketch.js`)).toBe(true);
+    expect(await Sketch.isSketchScriptFile(f`modules/shapes.js`)).toBe(false);
+  });
+
+  test('recognizes TypeScript sketches', async () => {
+    expect(await Sketch.isSketchScriptFile(f`typescript/sketch.ts`)).toBe(true);
+    expect(await Sketch.isSketchScriptFile(f`typescript/global.d.ts`)).toBe(false);
   });
 
   test('rejects missing files', async () => {
@@ -112,6 +133,293 @@ test('Sketch.files', async () => {
   );
 });
 
+test('Sketch.files includes computed asset paths', async () => {
+  const sketch = await Sketch.fromDirectory(f`assets`);
+  expect([...sketch.files].sort()).toEqual(
+    [
+      'sketch.js',
+      'images/frame1.png',
+      'images/frame2.png',
+      'images/background.png',
+      'shaders/effect.vert',
+      'shaders/effect.frag',
+      'clip.mp4',
+      'clip.webm'
+    ].sort()
+  );
+});
+
+test('TypeScript sketches', async () => {
+  const sketch = await Sketch.fromDirectory(f`typescript`);
+  expect(sketch.structureType).toBe('script');
+  expect(sketch.name).toBe('sketch');
+  expect(sketch.description).toBe('A TypeScript sketch');
+  expect([...sketch.files].sort()).toEqual(['bounce.mp3', 'sketch.ts']);
+  expect(sketch.libraries.map(lib => lib.name)).toEqual(['p5.sound']);
+  expect(await sketch.getHtmlContent()).toMatch(
+    /<script src="\.\/sketch\.ts"><\/script>/
+  );
+});
+
+test('Sketch.files follows module imports', async () => {
+  const sketch = await Sketch.fromDirectory(f`modules`);
+  expect(sketch.mainFile).toBe('sketch.js');
+  expect([...sketch.files].sort()).toEqual(
+    ['sketch.js', 'shapes.js', 'palette.js', 'sound.js', 'tone.mp3'].sort()
+  );
+  expect(sketch.libraries.map(lib => lib.name)).toEqual(['p5.sound']);
+});
+
+test('Sketch.getHtmlContent loads module sketches as modules', async () => {
+  let sketch = await Sketch.fromScriptFile(f`modules/sketch.js`);
+  expect(await sketch.getHtmlContent()).toMatch(
+    /<script src="\.\/sketch\.js" type="module"><\/script>/
+  );
+
+  sketch = await Sketch.fromScriptFile(f`circles.js`);
+  expect(await sketch.getHtmlContent()).toMatch(
+    /<script src="\.\/circles\.js"><\/script>/
+  );
+});
+
+test('HTML sketch library versions', async () => {
+  const sketch = await Sketch.fromHtmlFile(f`library-versions/index.html`);
+  expect(sketch.libraries.map(lib => [lib.name, lib.version])).toEqual([
+    ['ml5.js', '0.11.0'],
+    ['p5.touchgui', '0.5.0']
+  ]);
+  expect(sketch.libraryIssues).toEqual([
+    {
+      type: 'outdatedVersion',
+      library: 'p5.touchgui',
+      version: '0.5.0',
+      recommendedVersion: '0.5.2'
+    }
+  ]);
+});
+
+test('Sketch.libraryIssues reports ambiguous references', async () => {
+  const sketch = await Sketch.fromFile(f`library-ambiguity/ambiguous.js`);
+  expect(sketch.libraries).toEqual([]);
+  expect(sketch.libraryIssues).toEqual([
+    {
+      type: 'ambiguousReference',
+      name: 'addSprite',
+      libraries: ['sprites-a', 'sprites-b']
+    }
+  ]);
+});
+
+test('Sketch.libraryIssues reports deprecated and incompatible libraries', async () => {
+  const sketch = await Sketch.fromFile(f`library-lifecycle/sketch.js`);
+  expect(sketch.libraryIssues).toEqual([
+    {
+      type: 'deprecatedLibrary',
+      library: 'old-dom',
+      message: 'p5.js includes these functions',
+      replacedBy: 'new-dom'
+    },
+    {
+      type: 'incompatibleLibrary',
+      library: 'legacy-shapes',
+      p5Version: '1.4',
+      p5Versions: '0.x'
+    }
+  ]);
+});
+
+test('HTML sketch library companion scripts', async () => {
+  const sketch = await Sketch.fromHtmlFile(
+    f`Sketch.convert/snapshots/library-dependencies/sketch.html`
+  );
+  expect(sketch.libraries.map(lib => lib.name)).toEqual([
+    'ml5.js',
+    'widget-core',
+    'p5.widgets'
+  ]);
+});
+
+test('Sketch.explainLibraries', async () => {
+  let sketch = await Sketch.fromFile(f`library-inference/loadSound.js`);
+  expect(sketch.explainLibraries()).toEqual([
+    {
+      library: expect.objectContaining({ name: 'p5.sound' }),
+      reasons: [expect.objectContaining({ type: 'global', name: 'loadSound' })]
+    }
+  ]);
+
+  sketch = await Sketch.fromHtmlFile(
+    f`Sketch.convert/snapshots/library-dependencies/sketch.html`
+  );
+  const [, , widgets] = sketch.explainLibraries();
+  expect(widgets.library.name).toBe('p5.widgets');
+  expect(widgets.reasons).toEqual([
+    {
+      type: 'scriptTag',
+      importPath:
+        'https://cdn.jsdelivr.net/npm/p5.widgets@2.0.0/dist/p5.widgets.min.js',
+      file: 'sketch.html'
+    },
+    {
+      type: 'scriptTag',
+      importPath:
+        'https://cdn.jsdelivr.net/npm/p5.widgets@2.0.0/dist/p5.widgets.themes.js',
+      file: 'sketch.html'
+    }
+  ]);
+});
+
+describe('Sketch.addLibrary and Sketch.removeLibrary', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-libraries-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('HTML sketch', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'sketch.js'),
+      'function setup() {\n  createCanvas(100, 100);\n}\n'
+    );
+    fs.copyFileSync(f`Sketch.convert/sketch.html`, path.join(dir, 'index.html'));
+    const sketch = await Sketch.fromFile(path.join(dir, 'index.html'));
+    const sound = Library.find({ name: 'p5.sound' })!;
+    expect(await sketch.addLibrary(sound)).toBe(true);
+    expect(sketch.libraries.map(lib => lib.name)).toEqual(['p5.sound']);
+    expect(await sketch.addLibrary(sound)).toBe(false);
+    expect(await sketch.removeLibrary(sound)).toBe(true);
+    expect(sketch.libraries).toEqual([]);
+    expect(fs.readFileSync(path.join(dir, 'index.html'), 'utf-8')).toBe(
+      fs.readFileSync(f`Sketch.convert/sketch.html`, 'utf-8')
+    );
+    expect(await sketch.removeLibrary(sound)).toBe(false);
+  });
+
+  test('JavaScript sketch', async () => {
+    const scriptFile = path.join(dir, 'sketch.js');
+    fs.writeFileSync(
+      scriptFile,
+      'function setup() {\n  createCanvas(100, 100);\n  loadSound("a.mp3");\n}\n'
+    );
+    const sketch = await Sketch.fromFile(scriptFile);
+    const ml5 = Library.find({ name: 'ml5.js' })!;
+    const sound = Library.find({ name: 'p5.sound' })!;
+    expect(await sketch.addLibrary(sound)).toBe(false);
+    expect(await sketch.addLibrary(ml5.withVersion('0.12.2'))).toBe(true);
+    expect(fs.readFileSync(scriptFile, 'utf-8')).toMatch(
+      /^\/\/ library: ml5.js@0.12.2\n/
+    );
+    expect(sketch.libraries.map(lib => lib.name)).toEqual(['p5.sound', 'ml5.js']);
+
+    await expect(sketch.removeLibrary(sound)).rejects.toThrow(
+      'sketch.js references loadSound, which p5.sound defines'
+    );
+    await expect(sketch.removeLibrary(sound)).rejects.toThrow(LibraryInUseError);
+    expect(await sketch.removeLibrary(sound, { force: true })).toBe(true);
+    expect(fs.readFileSync(scriptFile, 'utf-8')).toMatch(
+      /^\/\/ library: ml5.js@0.12.2, -p5.sound\n/
+    );
+    expect(await sketch.removeLibrary(ml5)).toBe(true);
+    expect(fs.readFileSync(scriptFile, 'utf-8')).toMatch(/^\/\/ library: -p5.sound\n/);
+    expect(sketch.libraries).toEqual([]);
+  });
+});
+
+describe('Sketch.p5Version', () => {
+  afterEach(() => setDefaultP5Version(p5Version));
+
+  test('defaults to the default version', async () => {
+    const sketch = await Sketch.fromScriptFile(f`p5-version/default.js`);
+    expect(sketch.p5Version).toBe(p5Version);
+    setDefaultP5Version('1.7.0');
+    expect(sketch.p5Version).toBe('1.7.0');
+    expect(await sketch.getHtmlContent()).toMatch(
+      'src="https://cdn.jsdelivr.net/npm/p5@1.7.0/lib/p5.min.js"'
+    );
+  });
+
+  test('reads the p5-version comment directive', async () => {
+    const sketch = await Sketch.fromScriptFile(f`p5-version/directive.js`);
+    expect(sketch.p5Version).toBe('1.9.0');
+    const html = await sketch.getHtmlContent();
+    expect(html).toMatch('src="https://cdn.jsdelivr.net/npm/p5@1.9.0/lib/p5.min.js"');
+    expect(html).toMatch(
+      'src="https://cdn.jsdelivr.net/npm/p5@1.9.0/lib/addons/p5.sound.min.js"'
+    );
+  });
+
+  test('prefers the version that the HTML file loads', async () => {
+    const sketch = await Sketch.fromHtmlFile(f`p5-version/html-sketch/index.html`);
+    expect(sketch.p5Version).toBe('1.2.0');
+  });
+});
+
+test('Sketch.globalScopeIssues', async () => {
+  let sketch = await Sketch.fromFile(f`global-scope/index.html`);
+  expect(sketch.globalScopeIssues).toEqual([
+    {
+      type: 'useBeforeLoad',
+      name: 'palette',
+      file: 'sketch.js',
+      definedIn: 'palette.js'
+    },
+    {
+      type: 'duplicateDefinition',
+      name: 'backgroundColor',
+      files: ['sketch.js', 'shapes.js']
+    },
+    {
+      type: 'duplicateLifecycleFunction',
+      name: 'draw',
+      files: ['sketch.js', 'draw.js']
+    }
+  ]);
+
+  sketch = await Sketch.fromFile(f`html-includes/index.html`);
+  expect(sketch.globalScopeIssues).toEqual([]);
+
+  sketch = await Sketch.fromScriptFile(f`circles.js`);
+  expect(sketch.globalScopeIssues).toEqual([]);
+});
+
+test('Sketch.assetIssues', async () => {
+  let sketch = await Sketch.fromFile(f`asset-issues/index.html`);
+  expect(sketch.assetIssues).toEqual([
+    { type: 'missing', file: 'missing.js', referencedBy: 'index.html' },
+    {
+      type: 'caseMismatch',
+      file: 'Style.css',
+      actualFile: 'style.css',
+      referencedBy: 'index.html'
+    },
+    {
+      type: 'caseMismatch',
+      file: 'images/cat.png',
+      actualFile: 'images/Cat.png',
+      referencedBy: 'sketch.js'
+    },
+    { type: 'missing', file: 'images/dog.png', referencedBy: 'sketch.js' },
+    { type: 'missing', file: 'images/100%.png', referencedBy: 'sketch.js' }
+  ]);
+  // The issues are computed once, and aren't serialized with the sketch
+  expect(sketch.assetIssues).toBe(sketch.assetIssues);
+  expect(JSON.stringify(sketch)).not.toMatch(/caseMismatch/);
+
+  sketch = await Sketch.fromScriptFile(f`asset-issues/sketch.js`);
+  expect(sketch.assetIssues.map(issue => issue.file)).toEqual([
+    'images/cat.png',
+    'images/dog.png',
+    'images/100%.png'
+  ]);
+
+  sketch = await Sketch.fromScriptFile(f`circles.js`);
+  expect(sketch.assetIssues).toEqual([]);
+});
+
 test('Sketch.libraries', async () => {
   let sketch = await Sketch.fromScriptFile(f`library-inference/loadSound.js`);
   expect(sketch.libraries.map(lib => lib.name)).toEqual(['p5.sound']);
@@ -153,6 +461,35 @@ test('Sketch.description', async () => {
   );
 });
 
+test('Sketch.metadata', async () => {
+  let sketch = await Sketch.fromFile(f`sketch-metadata/sketch.js`);
+  expect(sketch.metadata).toEqual({
+    author: 'Ada Lovelace',
+    tags: ['interactive', 'generative'],
+    license: 'CC BY 4.0',
+    thumbnail: 'thumbnail.png',
+    created: '2021-10-04'
+  });
+  expect(sketch.description).toBe('Circles that follow\nthe mouse');
+  expect(sketch.files).toContain('thumbnail.png');
+  // The metadata is read once, and isn't serialized with the sketch
+  expect(sketch.metadata).toBe(sketch.metadata);
+  expect(JSON.stringify(sketch)).not.toMatch(/Ada Lovelace/);
+
+  // The HTML file takes precedence over the script's header comment
+  sketch = await Sketch.fromFile(f`sketch-metadata/index.html`);
+  expect(sketch.metadata).toEqual({
+    author: 'Grace Hopper',
+    tags: ['generative', 'noise'],
+    license: 'MIT',
+    thumbnail: 'https://example.com/thumbnail.png',
+    created: '2022-01-15'
+  });
+
+  sketch = await Sketch.fromFile(f`descriptions/single-line-description.js`);
+  expect(sketch.metadata).toEqual({ tags: [] });
+});
+
 describe('Sketch.generate', () => {
   const testfileDir = f`Sketch.generate`;
   const outputDir = path.join(testfileDir, 'output');
@@ -216,6 +553,13 @@ describe('Sketch.convert', () => {
 
     test('library', () =>
       testConvert('use-sound-library.js', { type: 'html' }, 'use-sound-library'));
+
+    test('library dependencies', () =>
+      testConvert(
+        'library-dependencies/sketch.js',
+        { type: 'html' },
+        'library-dependencies'
+      ));
   });
 
   describe('html -> script', () => {
@@ -247,6 +591,26 @@ describe('Sketch.convert', () => {
         { exception: 'sketch.js implies libraries that are not in index.html' }
       ));
 
+    test('pinned library version', () =>
+      testConvert(
+        'library-version/index.html',
+        { type: 'script' },
+        {
+          exception:
+            'index.html loads library versions that sketch.js does not pin: ml5.js@0.11.0. Add a "// library:" comment to sketch.js.'
+        }
+      ));
+
+    test('different p5.js version', () =>
+      testConvert(
+        'p5-version/index.html',
+        { type: 'script' },
+        {
+          exception:
+            'index.html loads p5.js 1.2.0, but sketch.js would use p5.js 1.4. Add a "// p5-version: 1.2.0" comment to sketch.js.'
+        }
+      ));
+
     // TODO: error if html file includes custom css?
     // TODO: error if html file includes extra structure?
 
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAnalysisCacheDir } from '../src/models/analysis-cache';
+import { Script as ScriptClass } from '../src/models/Script';
+
+describe('persistent analysis cache', () => {
+  const savedCacheDir = process.env.P5_ANALYSIS_CACHE_DIR;
+  let cacheDir: string;
+  let sketchDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-cache-'));
+    sketchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-sketch-'));
+    process.env.P5_ANALYSIS_CACHE_DIR = cacheDir;
+  });
+
+  afterEach(() => {
+    if (savedCacheDir === undefined) {
+      delete process.env.P5_ANALYSIS_CACHE_DIR;
+    } else {
+      process.env.P5_ANALYSIS_CACHE_DIR = savedCacheDir;
+    }
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    fs.rmSync(sketchDir, { recursive: true, force: true });
+  });
+
+  /** Loads a fresh copy of Script, whose in-memory cache is empty, so that
+   * only the persistent cache is consulted. */
+  function loadScriptClass(): typeof ScriptClass {
+    let Script: typeof ScriptClass;
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      Script = require('../src/models/Script').Script;
+    });
+    return Script!;
+  }
+
+  function listEntries(): string[] {
+    const files: string[] = [];
+    const visit = (dir: string) =>
+      fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+        const file = path.join(dir, entry.name);
+        entry.isDirectory() ? visit(file) : files.push(file);
+      });
+    if (fs.existsSync(cacheDir)) visit(cacheDir);
+    return files;
+  }
+
+  function writeSketch(source: string) {
+    const file = path.join(sketchDir, 'sketch.js');
+    fs.writeFileSync(file, source);
+    return file;
+  }
+
+  test('honors P5_ANALYSIS_CACHE_DIR', () => {
+    expect(getAnalysisCacheDir()).toBe(path.join(cacheDir, 'p5-analysis-cache'));
+    delete process.env.P5_ANALYSIS_CACHE_DIR;
+    expect(getAnalysisCacheDir()).toBe(
+      path.join(os.homedir(), '.cache', 'p5-analysis-cache')
+    );
+  });
+
+  test('only removes its own directories', () => {
+    const otherFile = path.join(cacheDir, 'other.txt');
+    const otherDir = path.join(getAnalysisCacheDir(), 'other');
+    const staleDir = path.join(getAnalysisCacheDir(), '0123456789abcdef');
+    fs.writeFileSync(otherFile, '');
+    fs.mkdirSync(otherDir, { recursive: true });
+    fs.mkdirSync(staleDir, { recursive: true });
+
+    loadScriptClass().fromFile(writeSketch('function setup() {}')).refs;
+    expect(fs.existsSync(staleDir)).toBe(false);
+    expect(fs.existsSync(otherDir)).toBe(true);
+
+    loadScriptClass().clearCache();
+    expect(fs.existsSync(getAnalysisCacheDir())).toBe(false);
+    expect(fs.existsSync(otherFile)).toBe(true);
+  });
+
+  test('stores analyses on disk', () => {
+    const file = writeSketch('function setup() { loadSound("a.mp3"); }');
+    const script = loadScriptClass().fromFile(file);
+    expect([...script.refs]).toEqual(['loadSound']);
+    expect(listEntries()).toHaveLength(1);
+  });
+
+  test('reads analyses from disk', () => {
+    const file = writeSketch('function setup() { loadSound("a.mp3"); }');
+    loadScriptClass().fromFile(file).refs;
+
+    // Modify the entry, to verify that the next analysis comes from it.
+    const [entryFile] = listEntries();
+    const entry = fs.readFileSync(entryFile, 'utf-8');
+    fs.writeFileSync(entryFile, entry.replace('"loadSound"', '"cachedName"'));
+
+    const script = loadScriptClass().fromFile(file);
+    expect([...script.refs]).toEqual(['cachedName']);
+    expect(script.loadCallArgumentLocations.get('a.mp3')).toEqual([
+      { file, line: 1, column: 29, range: [29, 36] }
+    ]);
+  });
+
+  test('stores comments', () => {
+    const file = writeSketch('// library: p5.sound\nfunction setup() {}');
+    loadScriptClass().fromFile(file).refs;
+    const script = loadScriptClass().fromFile(file);
+    expect(script.findMatchingComments(/^library:/)).toEqual(['library: p5.sound']);
+  });
+
+  test('stores syntax errors', () => {
+    const file = writeSketch('const const;');
+    expect(loadScriptClass().fromFile(file).getErrors()).toHaveLength(1);
+    expect(listEntries()).toHaveLength(1);
+
+    const [err] = loadScriptClass().fromFile(file).getErrors();
+    expect(err).toBeInstanceOf(SyntaxError);
+    expect(err.message).toMatch(/Unexpected keyword 'const'/);
+    expect((err as SyntaxError & { loc: unknown }).loc).toMatchObject({
+      line: 1,
+      column: 6
+    });
+  });
+
+  test('is invalidated by changes to the source', () => {
+    const file = writeSketch('function setup() { loadSound(); }');
+    loadScriptClass().fromFile(file).refs;
+    writeSketch('function setup() { loadFont(); }');
+    expect([...loadScriptClass().fromFile(file).refs]).toEqual(['loadFont']);
+    expect(listEntries()).toHaveLength(2);
+  });
+
+  test('Script.clearCache', () => {
+    const file = writeSketch('function setup() {}');
+    const Script = loadScriptClass();
+    Script.fromFile(file).refs;
+    Script.clearCache();
+    expect(listEntries()).toHaveLength(0);
+  });
+
+  test('can be disabled', () => {
+    const file = writeSketch('function setup() {}');
+    const Script = loadScriptClass();
+    Script.options = { persistentCache: false };
+    Script.fromFile(file).refs;
+    expect(listEntries()).toHaveLength(0);
+  });
+
+  test('can be disabled by P5_ANALYSIS_CACHE', () => {
+    const file = writeSketch('function setup() {}');
+    process.env.P5_ANALYSIS_CACHE = '0';
+    try {
+      loadScriptClass().fromFile(file).refs;
+    } finally {
+      delete process.env.P5_ANALYSIS_CACHE;
+    }
+    expect(listEntries()).toHaveLength(0);
+  });
+});
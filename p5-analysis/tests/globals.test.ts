@@ -0,0 +1,65 @@
+import { Library } from '../src';
+import {
+  classifyGlobals,
+  getBrowserGlobals,
+  getP5Globals,
+  getP5GlobalsVersion,
+  getSupportedP5Versions
+} from '../src/models/globals';
+
+test('getSupportedP5Versions', () => {
+  const versions = getSupportedP5Versions();
+  expect(versions).toContain('1.0');
+  expect(versions).toContain('1.4');
+  expect(versions.indexOf('1.4')).toBeLessThan(versions.indexOf('1.10'));
+});
+
+describe('getP5Globals', () => {
+  test('contains p5.js globals and their kinds', () => {
+    const globals = getP5Globals('1.4');
+    expect(globals.get('createCanvas')).toBe('function');
+    expect(globals.get('mouseX')).toBe('variable');
+    expect(globals.get('PI')).toBe('constant');
+    expect(globals.get('p5')).toBe('class');
+    expect(globals.has('setup')).toBe(false);
+    expect(globals.has('loadSound')).toBe(false);
+  });
+
+  test('depends on the version', () => {
+    expect(getP5Globals('1.0').has('textWrap')).toBe(false);
+    expect(getP5Globals('1.4').has('textWrap')).toBe(true);
+    expect(getP5Globals('1.4').has('createFramebuffer')).toBe(false);
+    expect(getP5Globals('1.11').has('createFramebuffer')).toBe(true);
+  });
+
+  test('uses the closest earlier version', () => {
+    expect(getP5Globals('1.4.2')).toBe(getP5Globals('1.4'));
+    expect(getP5Globals('1.99')).toBe(getP5Globals('1.11'));
+    expect(getP5Globals('0.10.2')).toBe(getP5Globals('1.0'));
+  });
+
+  test('falls back to a table for another major version', () => {
+    expect(getP5GlobalsVersion('1.4.2')).toBe('1.4');
+    expect(getP5GlobalsVersion('2.0.0')).toBe('1.11');
+  });
+});
+
+test('getBrowserGlobals', () => {
+  const globals = getBrowserGlobals();
+  expect(globals.has('Math')).toBe(true);
+  expect(globals.has('document')).toBe(true);
+  expect(globals.has('createCanvas')).toBe(false);
+});
+
+test('classifyGlobals', () => {
+  const classifications = classifyGlobals(
+    ['createCanvas', 'console', 'loadSound', 'undefinedVariable'],
+    { p5Version: '1.4', libraries: Library.all }
+  );
+  expect(Object.fromEntries(classifications)).toEqual({
+    createCanvas: 'p5',
+    console: 'browser',
+    loadSound: 'library',
+    undefinedVariable: 'unknown'
+  });
+});
@@ -1,4 +1,4 @@
-import { sizeof } from '../src/helpers';
+import { compareVersions, editDistance, sizeof, versionInRange } from '../src/helpers';
 
 describe('sizeof', () => {
   test('boolean', () => {
@@ -61,3 +61,32 @@ describe('sizeof', () => {
     ).toBe(68);
   });
 });
+
+test('compareVersions', () => {
+  expect(compareVersions('1.4', '1.4')).toBe(0);
+  expect(compareVersions('1.4', '1.4.0')).toBe(0);
+  expect(compareVersions('1.4', '1.11')).toBeLessThan(0);
+  expect(compareVersions('1.4.2', '1.4')).toBeGreaterThan(0);
+  expect(compareVersions('2.0', '1.11.13')).toBeGreaterThan(0);
+});
+
+test('versionInRange', () => {
+  expect(versionInRange('1.4.2', '1')).toBe(true);
+  expect(versionInRange('1.4.2', '1.x')).toBe(true);
+  expect(versionInRange('2.0.0', '1')).toBe(false);
+  expect(versionInRange('1.4', '>=1.0 <2')).toBe(true);
+  expect(versionInRange('0.9.0', '>=1.0 <2')).toBe(false);
+  expect(versionInRange('2.0.0-beta.1', '>=1.0 <2')).toBe(false);
+  expect(versionInRange('0.10.2', '0.x || 1')).toBe(true);
+  expect(versionInRange('2.1', '0.x || 1')).toBe(false);
+  expect(versionInRange('1.9.0', '*')).toBe(true);
+});
+
+test('editDistance', () => {
+  expect(editDistance('', '')).toBe(0);
+  expect(editDistance('p5.sound', 'p5.sound')).toBe(0);
+  expect(editDistance('p5sound', 'p5.sound')).toBe(1);
+  expect(editDistance('ml5.js', 'ml5js')).toBe(1);
+  expect(editDistance('kitten', 'sitting')).toBe(3);
+  expect(editDistance('', 'abc')).toBe(3);
+});
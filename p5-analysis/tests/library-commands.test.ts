@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addLibraryToSketch,
+  findLibrariesDefining,
+  listLibraries,
+  printLibraryProperty,
+  removeLibraryFromSketch,
+  searchLibraries
+} from '../src/commands/library-commands';
+
+/** Runs a command, and returns its output and exit status. */
+async function runCommand(command: () => unknown) {
+  const output = { status: 0, stdout: '', stderr: '' };
+  const exit = jest.spyOn(process, 'exit').mockImplementation(code => {
+    output.status = code || 0;
+    throw new Error(`exit ${code}`);
+  });
+  const log = jest.spyOn(console, 'log').mockImplementation((...args) => {
+    output.stdout += args.join(' ') + '\n';
+  });
+  const error = jest.spyOn(console, 'error').mockImplementation((...args) => {
+    output.stderr += args.join(' ') + '\n';
+  });
+  const warn = jest.spyOn(console, 'warn').mockImplementation((...args) => {
+    output.stderr += args.join(' ') + '\n';
+  });
+  try {
+    await command();
+  } catch (e) {
+    if (!(e instanceof Error && /^exit /.test(e.message))) throw e;
+  } finally {
+    [exit, log, error, warn].forEach(spy => spy.mockRestore());
+  }
+  return output;
+}
+
+describe('p5-libraries add and remove', () => {
+  const source = 'function setup() {\n  createCanvas(100, 100);\n}\n';
+  let dir: string;
+  let sketchFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-add-'));
+    sketchFile = path.join(dir, 'sketch.js');
+    fs.writeFileSync(sketchFile, source);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('adds a library from the registry', async () => {
+    const output = await runCommand(() => addLibraryToSketch('p5.sound', sketchFile));
+    expect(output.status).toBe(0);
+    expect(fs.readFileSync(sketchFile, 'utf-8')).toBe(
+      '// library: p5.sound\n' + source
+    );
+  });
+
+  test('refuses an unknown library', async () => {
+    const output = await runCommand(() => addLibraryToSketch('p5sound', sketchFile));
+    expect(output.status).toBe(1);
+    expect(output.stderr).toMatch(
+      /Unknown library: p5sound\. Did you mean p5\.sound\?/
+    );
+    expect(fs.readFileSync(sketchFile, 'utf-8')).toBe(source);
+  });
+
+  test('adds an npm package or URL that is not in the registry', async () => {
+    expect(
+      (await runCommand(() => addLibraryToSketch('npm:left-pad', sketchFile))).status
+    ).toBe(0);
+    expect(fs.readFileSync(sketchFile, 'utf-8')).toBe(
+      '// library: left-pad\n' + source
+    );
+
+    const url = 'https://example.com/lib/example.js';
+    expect((await runCommand(() => addLibraryToSketch(url, sketchFile))).status).toBe(
+      0
+    );
+    expect(fs.readFileSync(sketchFile, 'utf-8')).toBe(
+      `// library: left-pad, ${url}\n` + source
+    );
+  });
+
+  test('refuses to remove a library that the sketch references', async () => {
+    fs.writeFileSync(sketchFile, 'function setup() {\n  loadSound("a.mp3");\n}\n');
+    let output = await runCommand(() =>
+      removeLibraryFromSketch('p5.sound', sketchFile, { force: false })
+    );
+    expect(output.status).toBe(1);
+    expect(output.stderr).toBe(
+      "Error: Can't remove p5.sound: sketch.js references loadSound, which p5.sound" +
+        ' defines. Use --force to remove it anyway.\n'
+    );
+
+    output = await runCommand(() =>
+      removeLibraryFromSketch('p5.sound', sketchFile, { force: true })
+    );
+    expect(output.status).toBe(0);
+    expect(fs.readFileSync(sketchFile, 'utf-8')).toMatch(/^\/\/ library: -p5\.sound\n/);
+  });
+
+  test('reports a missing sketch', async () => {
+    const missing = path.join(dir, 'missing.js');
+    let output = await runCommand(() => addLibraryToSketch('p5.sound', missing));
+    expect(output.status).toBe(1);
+    expect(output.stderr).toMatch(/missing\.js does not exist/);
+
+    output = await runCommand(() =>
+      removeLibraryFromSketch('p5.sound', missing, { force: false })
+    );
+    expect(output.status).toBe(1);
+    expect(output.stderr).toMatch(/missing\.js does not exist/);
+  });
+});
+
+describe('p5-libraries list', () => {
+  test('--category', async () => {
+    expect((await runCommand(() => listLibraries({ category: 'core' }))).stdout).toBe(
+      'p5.sound\n'
+    );
+    const output = await runCommand(() => listLibraries({ category: 'nonesuch' }));
+    expect(output.status).toBe(1);
+    expect(output.stderr).toMatch(/Unknown category: nonesuch/);
+  });
+
+  test('--tag', async () => {
+    const output = await runCommand(() => listLibraries({ tag: 'Sound' }));
+    expect(output.stdout.trim().split('\n')).toEqual(['p5.sound', 'p5.speech']);
+    expect((await runCommand(() => listLibraries({ tag: 'nonesuch' }))).stdout).toBe(
+      '\n'
+    );
+  });
+});
+
+describe('p5-libraries property', () => {
+  test('reports an unknown --cdn', async () => {
+    const output = await runCommand(() =>
+      printLibraryProperty('p5.sound', 'import-path', { cdn: 'nonesuch' })
+    );
+    expect(output.status).toBe(1);
+    expect(output.stderr).toMatch(/^Error: Unknown CDN: nonesuch\. Choose from /);
+  });
+});
+
+describe('p5-libraries which', () => {
+  test('finds a global', async () => {
+    const output = await runCommand(() => findLibrariesDefining('loadSound', {}));
+    expect(output).toEqual({ status: 0, stdout: 'p5.sound\n', stderr: '' });
+  });
+
+  test('finds a p5 property', async () => {
+    const output = await runCommand(() =>
+      findLibrariesDefining('p5.Pulse', { json: true })
+    );
+    expect(JSON.parse(output.stdout).map((lib: { name: string }) => lib.name)).toEqual([
+      'p5.sound'
+    ]);
+  });
+
+  test('fails if no library defines the symbol', async () => {
+    for (const json of [false, true]) {
+      const output = await runCommand(() =>
+        findLibrariesDefining('nonesuch', { json })
+      );
+      expect(output).toEqual({
+        status: 1,
+        stdout: '',
+        stderr: 'Error: No library defines nonesuch\n'
+      });
+    }
+  });
+});
+
+describe('p5-libraries search', () => {
+  test('matches names and descriptions', async () => {
+    expect((await runCommand(() => searchLibraries('ML5', {}))).stdout).toBe(
+      'ml5.js\n'
+    );
+    expect(
+      (await runCommand(() => searchLibraries('machine learning', {}))).stdout
+    ).toBe('ml5.js\n');
+  });
+
+  test('fails if no library matches', async () => {
+    for (const json of [false, true]) {
+      const output = await runCommand(() => searchLibraries('nonesuch', { json }));
+      expect(output.status).toBe(1);
+      expect(output.stdout).toBe('');
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { Library } from '../src';
+import {
+  addLibraryElements,
+  librarySpec,
+  removeLibraryElements,
+  updateLibraryDirective
+} from '../src/models/library-editing';
+
+const lib = (name: string) => Library.find({ name })!;
+
+describe('updateLibraryDirective', () => {
+  const source = 'function setup() {\n  createCanvas(100, 100);\n}\n';
+
+  test('adds a directive', () => {
+    expect(updateLibraryDirective(source, lib('p5.sound'), 'p5.sound')).toBe(
+      '// library: p5.sound\n' + source
+    );
+    expect(
+      updateLibraryDirective(
+        '#!/usr/bin/env node\n' + source,
+        lib('p5.sound'),
+        'p5.sound'
+      )
+    ).toBe('#!/usr/bin/env node\n// library: p5.sound\n' + source);
+  });
+
+  test('appends to an existing directive', () => {
+    expect(
+      updateLibraryDirective(
+        '// library: ml5.js\n' + source,
+        lib('p5.sound'),
+        'p5.sound'
+      )
+    ).toBe('// library: ml5.js, p5.sound\n' + source);
+    expect(
+      updateLibraryDirective('//library ml5.js\n' + source, lib('p5.sound'), 'p5.sound')
+    ).toBe('//library ml5.js, p5.sound\n' + source);
+  });
+
+  test('replaces a spec that names the library', () => {
+    expect(
+      updateLibraryDirective(
+        '// library: ml5.js@0.11.0, p5.sound\n' + source,
+        lib('ml5.js'),
+        'ml5.js@0.12.2'
+      )
+    ).toBe('// library: ml5.js@0.12.2, p5.sound\n' + source);
+    expect(
+      updateLibraryDirective(
+        '// library: -p5.play\n' + source,
+        lib('p5.play'),
+        'p5.play'
+      )
+    ).toBe('// library: p5.play\n' + source);
+  });
+
+  test('removes a spec', () => {
+    expect(
+      updateLibraryDirective(
+        '// library: ml5.js p5.sound\n' + source,
+        lib('ml5.js'),
+        null
+      )
+    ).toBe('// library: p5.sound\n' + source);
+    expect(
+      updateLibraryDirective('// library: ml5.js\n' + source, lib('ml5.js'), null)
+    ).toBe(source);
+    expect(updateLibraryDirective(source, lib('ml5.js'), null)).toBe(source);
+  });
+
+  test('is idempotent', () => {
+    const once = updateLibraryDirective(source, lib('p5.sound'), 'p5.sound');
+    expect(updateLibraryDirective(once, lib('p5.sound'), 'p5.sound')).toBe(once);
+  });
+});
+
+test('librarySpec', () => {
+  expect(librarySpec(lib('p5.sound'))).toBe('p5.sound');
+  expect(librarySpec(lib('ml5.js').withVersion('0.12.2'))).toBe('ml5.js@0.12.2');
+  expect(librarySpec(lib('ml5.js').withVersion('0.12.2'), { exclude: true })).toBe(
+    '-ml5.js'
+  );
+  expect(librarySpec(Library.fromPackageName('left-pad'))).toBe('left-pad');
+});
+
+describe('addLibraryElements', () => {
+  const p5Script =
+    '<script src="https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.min.js"></script>';
+
+  test('inserts scripts before the sketch script', () => {
+    const html = `<html>\n  <head>\n    ${p5Script}\n    <script src="sketch.js"></script>\n  </head>\n</html>\n`;
+    const result = addLibraryElements(html, [lib('p5.sound')]);
+    expect(result).toBe(
+      `<html>\n  <head>\n    ${p5Script}\n    <script src="${
+        lib('p5.sound').importPath
+      }" crossorigin="anonymous"></script>\n    <script src="sketch.js"></script>\n  </head>\n</html>\n`
+    );
+  });
+
+  test('appends scripts to the head', () => {
+    const html = '<html>\n  <head>\n    <title>Test</title>\n  </head>\n</html>\n';
+    expect(addLibraryElements(html, [lib('p5.sound')])).toBe(
+      `<html>\n  <head>\n    <title>Test</title>\n    <script src="${
+        lib('p5.sound').importPath
+      }" crossorigin="anonymous"></script>\n  </head>\n</html>\n`
+    );
+  });
+});
+
+test('removeLibraryElements', () => {
+  const soundScript = `<script src="${lib('p5.sound').importPath}"></script>`;
+  const html = `<head>\n  ${soundScript}\n  <script src="sketch.js"></script>\n</head>\n`;
+  expect(removeLibraryElements(html, lib('p5.sound'))).toBe(
+    '<head>\n  <script src="sketch.js"></script>\n</head>\n'
+  );
+  expect(removeLibraryElements(html, lib('ml5.js'))).toBe(html);
+});
@@ -0,0 +1,88 @@
+import { lintSketch, Sketch } from '../src';
+import lintCommand from '../src/commands/lint';
+
+const testfilesPath = './tests/testdata/lint';
+
+async function lint(file: string) {
+  const sketch = await Sketch.fromFile(`${testfilesPath}/${file}`);
+  return lintSketch(sketch).map(
+    ({ rule, file, line, column }) => `${file}:${line}:${column} ${rule}`
+  );
+}
+
+describe('lintSketch', () => {
+  test('reports p5-specific mistakes', async () => {
+    expect(await lint('mistakes.js')).toEqual([
+      'mistakes.js:1:12 p5-global-at-load-time',
+      'mistakes.js:1:16 p5-global-at-load-time',
+      'mistakes.js:1:29 p5-global-at-load-time',
+      'mistakes.js:3:10 misspelled-callback',
+      'mistakes.js:7:7 callback-not-global',
+      'mistakes.js:8:3 multiple-create-canvas',
+      'mistakes.js:9:26 undefined-variable',
+      'mistakes.js:14:3 multiple-create-canvas',
+      'mistakes.js:15:3 multiple-create-canvas'
+    ]);
+  });
+
+  test('reports nothing for a sketch without mistakes', async () => {
+    expect(await lint('clean.js')).toEqual([]);
+  });
+
+  test('reports a p5.js version without a table of globals', async () => {
+    expect(await lint('p5-2.js')).toEqual(['p5-2.js:1:1 unsupported-p5-version']);
+  });
+
+  test('treats the scripts of an HTML sketch as a single global scope', async () => {
+    expect(await lint('html-sketch/index.html')).toEqual([
+      'sketch.js:12:10 misspelled-callback',
+      'shapes.js:2:16 undefined-variable'
+    ]);
+  });
+
+  test('includes messages and severities', async () => {
+    const sketch = await Sketch.fromFile(`${testfilesPath}/mistakes.js`);
+    const [diagnostic] = lintSketch(sketch);
+    expect(diagnostic).toEqual({
+      rule: 'p5-global-at-load-time',
+      severity: 'error',
+      message:
+        'min() is not defined until p5.js starts the sketch. Use it inside setup() or preload().',
+      file: 'mistakes.js',
+      line: 1,
+      column: 12
+    });
+  });
+});
+
+test('p5-lint reports a missing path', async () => {
+  const exit = jest.spyOn(process, 'exit').mockImplementation(() => {
+    throw new Error('exit');
+  });
+  const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  try {
+    await expect(lintCommand([`${testfilesPath}/missing`], {})).rejects.toThrow('exit');
+    expect(error).toHaveBeenCalledWith(
+      `Error: ${testfilesPath}/missing does not exist`
+    );
+  } finally {
+    exit.mockRestore();
+    error.mockRestore();
+  }
+});
+
+test('p5-lint reports an invalid --p5-version', async () => {
+  const exit = jest.spyOn(process, 'exit').mockImplementation(() => {
+    throw new Error('exit');
+  });
+  const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  try {
+    await expect(lintCommand([testfilesPath], { p5Version: 'latest' })).rejects.toThrow(
+      'exit'
+    );
+    expect(error).toHaveBeenCalledWith('Error: Invalid p5.js version: latest');
+  } finally {
+    exit.mockRestore();
+    error.mockRestore();
+  }
+});
@@ -0,0 +1,39 @@
+import {
+  isP5Version,
+  p5Version,
+  parseP5VersionFromUrl,
+  setDefaultP5Version
+} from '../src/models/p5-version';
+
+test('isP5Version', () => {
+  expect(isP5Version('1')).toBe(true);
+  expect(isP5Version('1.4')).toBe(true);
+  expect(isP5Version('1.4.2')).toBe(true);
+  expect(isP5Version('2.0.0-beta.1')).toBe(true);
+  expect(isP5Version('latest')).toBe(false);
+  expect(isP5Version('1.4/lib')).toBe(false);
+});
+
+test('setDefaultP5Version rejects invalid versions', () => {
+  expect(() => setDefaultP5Version('latest')).toThrow('Invalid p5.js version: latest');
+  setDefaultP5Version(p5Version);
+});
+
+test('parseP5VersionFromUrl', () => {
+  expect(parseP5VersionFromUrl('https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/p5.js')).toBe(
+    '1.4.0'
+  );
+  expect(parseP5VersionFromUrl('https://unpkg.com/p5@1.3/lib/p5.min.js')).toBe('1.3');
+  expect(
+    parseP5VersionFromUrl(
+      'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.2.0/p5.min.js'
+    )
+  ).toBe('1.2.0');
+  expect(
+    parseP5VersionFromUrl(
+      'https://cdn.jsdelivr.net/npm/p5@1.4.0/lib/addons/p5.sound.js'
+    )
+  ).toBeNull();
+  expect(parseP5VersionFromUrl('https://cdn.jsdelivr.net/npm/p5/lib/p5.js')).toBeNull();
+  expect(parseP5VersionFromUrl('p5.js')).toBeNull();
+});
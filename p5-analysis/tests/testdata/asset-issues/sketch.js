@@ -0,0 +1,14 @@
+let cat, dog, data;
+
+function preload() {
+  cat = loadImage('images/cat.png');
+  dog = loadImage('images/dog.png');
+  loadImage('images/my%20image.png');
+  loadImage('images/100%.png');
+  data = loadJSON('data.json');
+  loadImage('https://example.com/remote.png');
+}
+
+function setup() {
+  createCanvas(400, 400);
+}
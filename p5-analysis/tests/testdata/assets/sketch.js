@@ -0,0 +1,24 @@
+// Loads assets through constants, arrays, and instance-mode calls.
+const IMAGE_DIR = 'images/';
+const frames = ['frame1.png', 'frame2.png'];
+
+new p5(p => {
+  let images, shader, video;
+
+  p.preload = () => {
+    images = frames.map(name => p.loadImage(IMAGE_DIR + name));
+    p.loadImage(`${IMAGE_DIR}background.png`);
+    shader = p.loadShader('shaders/effect.vert', 'shaders/effect.frag');
+  };
+
+  p.setup = () => {
+    p.createCanvas(400, 400, p.WEBGL);
+    video = p.createVideo(['clip.mp4', 'clip.webm']);
+    video.hide();
+  };
+
+  p.draw = () => {
+    p.shader(shader);
+    p.image(images[p.frameCount % images.length], 0, 0);
+  };
+});
@@ -0,0 +1,3 @@
+function draw() {
+  drawShape(width / 2, height / 2);
+}
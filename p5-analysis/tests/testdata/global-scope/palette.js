@@ -0,0 +1,4 @@
+const palette = {
+  background: 220,
+  foreground: 'steelblue'
+};
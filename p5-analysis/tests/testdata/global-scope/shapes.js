@@ -0,0 +1,7 @@
+// drawShape() is called from draw(), after all the scripts have been loaded
+function drawShape(x, y) {
+  fill(palette.foreground);
+  circle(x, y, 50);
+}
+
+let backgroundColor = 0;
@@ -0,0 +1,12 @@
+// palette is read when this script is loaded, but palette.js is loaded after
+// this script
+let backgroundColor = palette.background;
+
+function setup() {
+  createCanvas(400, 400);
+}
+
+function draw() {
+  background(backgroundColor);
+  drawShape(mouseX, mouseY);
+}
@@ -0,0 +1,8 @@
+function setup() {
+  createCanvas(400, 400);
+  addSprite(200, 200);
+}
+
+function draw() {
+  showSprites();
+}
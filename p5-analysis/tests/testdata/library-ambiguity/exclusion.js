@@ -0,0 +1,6 @@
+// library: -sprites-b
+
+function setup() {
+  createCanvas(400, 400);
+  addSprite(200, 200);
+}
@@ -0,0 +1,5 @@
+// library: p5.widgets@2.1.0
+
+function setup() {
+  createWidget('slider');
+}
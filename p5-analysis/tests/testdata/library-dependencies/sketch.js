@@ -0,0 +1,4 @@
+function setup() {
+  createCanvas(400, 400);
+  createWidget('slider');
+}
@@ -0,0 +1,23 @@
+new p5(sketch => {
+  let bell;
+  let gui;
+  let params = { size: 20 };
+
+  sketch.preload = () => {
+    bell = sketch.loadSound('doorbell.mp3');
+  };
+
+  sketch.setup = () => {
+    sketch.createCanvas(sketch.windowWidth, sketch.windowHeight);
+    gui = sketch.createGui('Settings');
+    gui.addObject(params);
+  };
+
+  sketch.draw = () => {
+    sketch.circle(sketch.width / 2, sketch.height / 2, params.size);
+  };
+
+  sketch.mousePressed = () => {
+    bell.play();
+  };
+});
@@ -0,0 +1,6 @@
+// library: ml5@0.12.2, p5.sound
+
+function setup() {
+  createCanvas(640, 480);
+  ml5.imageClassifier('MobileNet');
+}
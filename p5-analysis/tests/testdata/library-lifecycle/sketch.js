@@ -0,0 +1,6 @@
+function setup() {
+  createCanvas(400, 400);
+  createOldButton('Click');
+  createNewButton('Click');
+  legacyStar(200, 200, 50);
+}
@@ -0,0 +1,27 @@
+// A library bundle, in the style of a hand-written p5.js add-on.
+(function (p5) {
+  p5.prototype.loadExample = function (path) {
+    return new p5.Example(path);
+  };
+  p5.prototype['exampleMode'] = 'default';
+  p5.prototype._exampleState = {};
+
+  p5.Example = class {
+    constructor(path) {
+      this.path = path;
+    }
+  };
+  p5.EXAMPLE_VERSION = '1.0.0';
+
+  Object.assign(p5.prototype, {
+    createExample() {
+      return new p5.Example();
+    },
+    removeExample: function () {}
+  });
+
+  p5.prototype.registerMethod('init', function () {});
+})(p5);
+
+function exampleHelper() {}
+var _privateHelper = 1;
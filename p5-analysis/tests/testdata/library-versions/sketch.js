@@ -0,0 +1,5 @@
+function setup() {
+  createCanvas(640, 480);
+  ml5.imageClassifier('MobileNet');
+  createGui('controls');
+}
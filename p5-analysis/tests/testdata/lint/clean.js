@@ -0,0 +1,16 @@
+let x = 0;
+
+function setup() {
+  createCanvas(windowWidth, windowHeight);
+  x = width / 2;
+}
+
+function draw() {
+  background(220);
+  circle(x, height / 2, 50);
+  document.title = `${frameCount}`;
+}
+
+function keyPressed() {
+  saveCanvas();
+}
@@ -0,0 +1,3 @@
+function drawShape(x, y) {
+  square(x, y, shapeSize);
+}
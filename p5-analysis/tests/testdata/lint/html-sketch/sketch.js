@@ -0,0 +1,14 @@
+let osc;
+
+function setup() {
+  createCanvas(400, 400);
+  osc = new p5.Oscillator();
+}
+
+function draw() {
+  drawShape(mouseX, mouseY);
+}
+
+function mousepressed() {
+  osc.start();
+}
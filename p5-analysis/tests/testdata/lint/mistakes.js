@@ -0,0 +1,16 @@
+let size = min(windowWidth, windowHeight);
+
+function Setup() {
+  createCanvas(size, size);
+}
+
+const draw = () => {
+  createCanvas(100, 100);
+  circle(mouseX, mouseY, diameter);
+  console.log(Math.PI, diameter);
+};
+
+function setup() {
+  createCanvas(400, 400);
+  createCanvas(windowWidth, windowHeight);
+}
@@ -0,0 +1,5 @@
+// p5-version: 2.0.0
+
+function setup() {
+  createCanvas(100, 100);
+}
@@ -0,0 +1,6 @@
+import { palette } from './palette.js';
+
+export function drawShape(x, y) {
+  fill(palette[0]);
+  circle(x, y, 20);
+}
@@ -0,0 +1,18 @@
+import { drawShape } from './shapes.js';
+import { playTone } from './sound.js';
+
+function setup() {
+  createCanvas(windowWidth, windowHeight);
+}
+
+function draw() {
+  drawShape(mouseX, mouseY);
+}
+
+function mousePressed() {
+  playTone();
+}
+
+window.setup = setup;
+window.draw = draw;
+window.mousePressed = mousePressed;
@@ -0,0 +1,5 @@
+let tone;
+
+export function playTone() {
+  tone ??= loadSound('tone.mp3', () => tone.play());
+}
@@ -0,0 +1,3 @@
+function setup() {
+  createCanvas(400, 400);
+}
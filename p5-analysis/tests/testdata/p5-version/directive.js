@@ -0,0 +1,6 @@
+// p5-version: 1.9.0
+
+function setup() {
+  createCanvas(400, 400);
+  loadSound('bell.mp3');
+}
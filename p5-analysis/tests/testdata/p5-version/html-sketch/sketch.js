@@ -0,0 +1,5 @@
+// p5-version: 1.9.0
+
+function setup() {
+  createCanvas(400, 400);
+}
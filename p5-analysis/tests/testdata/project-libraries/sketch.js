@@ -0,0 +1,5 @@
+function setup() {
+  createCanvas(400, 400);
+  studioFrame();
+  loadSound('bell.mp3');
+}
@@ -0,0 +1,4 @@
+function setup() {
+  createCanvas(100, 100);
+  typoFrame();
+}
@@ -0,0 +1,7 @@
+// Author: Ada Lovelace
+// License: MIT
+// Created: 2022-01-15
+
+function setup() {
+  createCanvas(100, 100);
+}
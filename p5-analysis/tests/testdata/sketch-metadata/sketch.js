@@ -0,0 +1,19 @@
+/*
+ * Description: Circles that follow
+ * the mouse
+ * Author: Ada Lovelace
+ * Tags: interactive, generative
+ * License: CC BY 4.0
+ * Thumbnail: thumbnail.png
+ * Created: 2021-10-04
+ *
+ * Move the mouse to draw.
+ */
+
+function setup() {
+  createCanvas(100, 100);
+}
+
+function draw() {
+  circle(mouseX, mouseY, 10);
+}
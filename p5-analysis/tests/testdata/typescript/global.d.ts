@@ -0,0 +1,5 @@
+import * as p5Global from 'p5/global';
+import module = require('p5');
+
+export = module;
+export as namespace p5;
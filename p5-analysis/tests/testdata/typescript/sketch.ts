@@ -0,0 +1,32 @@
+/* Description: A TypeScript sketch */
+
+import type { Color } from 'p5';
+
+interface Ball {
+  x: number;
+  y: number;
+  color: Color;
+}
+
+let balls: Ball[] = [];
+let bounce: p5.SoundFile;
+
+function preload(): void {
+  bounce = loadSound('bounce.mp3');
+}
+
+function setup(): void {
+  createCanvas(windowWidth, windowHeight);
+}
+
+function draw(): void {
+  for (const ball of balls) {
+    fill(ball.color);
+    circle(ball.x, ball.y, 20);
+  }
+}
+
+function mousePressed(): void {
+  balls.push({ x: mouseX, y: mouseY, color: color(random(255)) as Color });
+  bounce.play();
+}
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Sketch as SketchClass } from '../src/models/Sketch';
+import { getAnalysisCacheDir } from '../src/models/analysis-cache';
+import { readDirectoryIndex } from '../src/models/directory-index';
+import { WorkerPool } from '../src/models/worker-pool';
+
+const sketchSource = 'function setup() { createCanvas(100, 100); }\n';
+
+describe('parallel directory analysis', () => {
+  const savedWorkers = process.env.P5_ANALYSIS_WORKERS;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-pool-'));
+    for (let i = 0; i < 10; i++) {
+      fs.writeFileSync(path.join(dir, `sketch-${i}.js`), sketchSource);
+    }
+    fs.writeFileSync(path.join(dir, 'helper.js'), 'function helper() {}\n');
+    fs.mkdirSync(path.join(dir, 'subdir'));
+    fs.writeFileSync(path.join(dir, 'subdir', 'sketch.js'), sketchSource);
+  });
+
+  afterEach(() => {
+    if (savedWorkers === undefined) {
+      delete process.env.P5_ANALYSIS_WORKERS;
+    } else {
+      process.env.P5_ANALYSIS_WORKERS = savedWorkers;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Loads a fresh copy of Sketch, whose worker pool and memoized
+   * classifications are reset. */
+  function loadSketchClass(): typeof SketchClass {
+    let Sketch: typeof SketchClass;
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      Sketch = require('../src/models/Sketch').Sketch;
+    });
+    return Sketch!;
+  }
+
+  async function summarize(Sketch: typeof SketchClass) {
+    const { sketches, unassociatedFiles } = await Sketch.analyzeDirectory(dir);
+    return {
+      sketches: sketches.map(sketch => sketch.mainFile).sort(),
+      unassociatedFiles
+    };
+  }
+
+  test('readDirectoryIndex', async () => {
+    const entries = await readDirectoryIndex(dir);
+    expect(entries).toHaveLength(12);
+    expect(entries).toContainEqual({ name: 'subdir', isDirectory: true });
+    expect(entries).toContainEqual({ name: 'helper.js', isDirectory: false });
+    expect(await readDirectoryIndex(path.join(dir, 'helper.js'))).toBeNull();
+    expect(await readDirectoryIndex(path.join(dir, 'missing'))).toBeNull();
+  });
+
+  test('WorkerPool classifies script files', async () => {
+    const pool = new WorkerPool<string, boolean>(
+      path.join(__dirname, '../src/models/analysis-worker.ts'),
+      2
+    );
+    try {
+      const results = await Promise.all([
+        pool.run(path.join(dir, 'sketch-0.js')),
+        pool.run(path.join(dir, 'helper.js')),
+        pool.run(path.join(dir, 'sketch-1.js'))
+      ]);
+      expect(results).toEqual([true, false, true]);
+    } finally {
+      await pool.close();
+    }
+  }, 60000);
+
+  test('WorkerPool passes the Script options to its workers', async () => {
+    const savedCacheDir = process.env.P5_ANALYSIS_CACHE_DIR;
+    process.env.P5_ANALYSIS_CACHE_DIR = path.join(dir, 'cache');
+    const pool = new WorkerPool<string, boolean>(
+      path.join(__dirname, '../src/models/analysis-worker.ts'),
+      1,
+      () => ({ persistentCache: false })
+    );
+    try {
+      expect(await pool.run(path.join(dir, 'sketch-0.js'))).toBe(true);
+      expect(fs.existsSync(getAnalysisCacheDir())).toBe(false);
+    } finally {
+      await pool.close();
+      process.env.P5_ANALYSIS_CACHE_DIR = savedCacheDir;
+    }
+  }, 60000);
+
+  test('workers produce the same analysis', async () => {
+    process.env.P5_ANALYSIS_WORKERS = '0';
+    const expected = await summarize(loadSketchClass());
+    expect(expected.sketches).toHaveLength(11);
+    expect(expected.unassociatedFiles).toEqual(['helper.js']);
+
+    process.env.P5_ANALYSIS_WORKERS = '2';
+    expect(await summarize(loadSketchClass())).toEqual(expected);
+  }, 60000);
+});
@@ -55,6 +55,8 @@ program
   .option('-t, --theme <FILE>', 'template file', 'split')
   .option('-v, --verbose', 'verbose output')
   .option('--dry-run', 'dry run')
+  .option('--p5-version <VERSION>', "p5.js version for sketches that don't specify one")
+  .option('--cdn <NAME>', 'CDN to load p5.js and libraries from')
   .action(build);
 
 program
@@ -89,6 +91,8 @@ program
   .option('--browser <NAME>', 'safari | chrome | firefox | edge (implies --open)')
   .option('--split', 'Use the split (directory + sketch) template')
   .option('--no-proxy-cache', 'disable the CDN proxy cache')
+  .option('--p5-version <VERSION>', "p5.js version for sketches that don't specify one")
+  .option('--cdn <NAME>', 'CDN to load p5.js and libraries from')
   .option(
     '--console [FORMAT]',
     'Relay console messages and errors to sketch in the server console'
@@ -136,6 +140,8 @@ cacheCommand
   .description('Fill the cache from known library import paths')
   .option('--force', 'Force refresh of cached entries')
   .option('-v, --verbose', 'verbose output')
+  .option('--p5-version <VERSION>', 'p5.js version to fetch')
+  .option('--cdn <NAME>', 'CDN to fetch p5.js and libraries from')
   .action(opts => fillCache(opts));
 
 cacheCommand
@@ -163,6 +169,10 @@ for (const command of ['library', 'libraries']) {
   );
 }
 
+program.command('lint', 'Report p5.js-specific mistakes in sketches', {
+  executableFile: `${P5_ANALYSIS_BIN}/p5-lint`
+});
+
 program.command('tree', 'Print the tree structure of a directory and its sketches', {
   executableFile: `${P5_ANALYSIS_BIN}/p5-tree`
 });
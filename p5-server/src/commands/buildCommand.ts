@@ -1,15 +1,28 @@
 import fs from 'fs';
 import { rm as rmSync, writeFile } from 'fs/promises';
 import minimatch from 'minimatch';
+import { parse as parseHtml } from 'node-html-parser';
 import open from 'open';
-import { Sketch } from 'p5-analysis';
+import {
+  applyCdnOption,
+  applyP5VersionOption,
+  isTypeScriptPathname,
+  Sketch
+} from 'p5-analysis';
 import path from 'path';
 import {
   createDirectoryListing,
   defaultDirectoryExclusions
 } from '../server/directoryListing';
 import { markdownToHtmlPage, sourceViewTemplate } from '../server/templates';
-import { die, pathIsInDirectory, pathIsMarkdown, stringToOptions } from '../helpers';
+import { transpileTypeScript } from '../server/typescript';
+import {
+  describeAssetIssue,
+  die,
+  pathIsInDirectory,
+  pathIsMarkdown,
+  stringToOptions
+} from '../helpers';
 import chalk from 'chalk';
 
 // TODO: copy the static icons into the build directory
@@ -18,8 +31,10 @@ type Options = {
   options: string;
   output: string;
   theme: string;
+  cdn?: string;
   dryRun?: boolean;
   open?: boolean;
+  p5Version?: string;
   verbose?: boolean;
 };
 
@@ -28,6 +43,12 @@ const directoryExclusions = [...defaultDirectoryExclusions, 'build'];
 export default async function build(source: string, options: Options) {
   const output = options.output;
   const hrstart = process.hrtime.bigint();
+  try {
+    applyP5VersionOption(options.p5Version);
+    applyCdnOption(options.cdn);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
 
   if (options.theme === 'directory') {
     options.theme = 'grid';
@@ -81,6 +102,8 @@ type Action = (
   | { kind: 'createIndex'; dir: string; path: string }
   | { kind: 'createSketchHtml'; sketch: Sketch }
   | { kind: 'createSourceView'; source: string }
+  | { kind: 'replaceTypeScriptPaths' }
+  | { kind: 'transpile'; source: string }
 ) & { outputFile: string };
 
 type ActionIterator = AsyncIterableIterator<Action>;
@@ -113,12 +136,22 @@ function createActions(file: string, output: string): ActionIterator {
     });
     yield Action('mkdir', dir, output);
 
+    // Files that are missing, or whose names differ only in case, may work in
+    // development and then fail on a case-sensitive web server.
+    for (const sketch of sketches) {
+      for (const issue of sketch.assetIssues) {
+        process.stderr.write(
+          chalk.yellow(`Warning: ${sketch.dir}: ${describeAssetIssue(issue)}\n`)
+        );
+      }
+    }
+
     const scriptOnlySketches = sketches.filter(sk => sk.structureType === 'script');
     // TODO: check for collisions when choosing the output file path
     for (const sketch of scriptOnlySketches) {
       const outputFile = path
         .join(output, sketch.scriptFile)
-        .replace(/\.js$/i, '.html');
+        .replace(/\.(js|ts)$/i, '.html');
       yield { kind: 'createSketchHtml', sketch, outputFile };
     }
 
@@ -135,7 +168,7 @@ function createActions(file: string, output: string): ActionIterator {
     for (const sketch of sketches) {
       const outputFile = path
         .join(output, path.relative(dir, sketch.scriptFilePath))
-        .replace(/\.js$/i, '.js.html');
+        .replace(/\.(js|ts)$/i, '.$1.html');
       yield { kind: 'createSourceView', source: sketch.scriptFilePath, outputFile };
     }
 
@@ -143,6 +176,24 @@ function createActions(file: string, output: string): ActionIterator {
       yield* visit(path.join(dir, file), path.join(output, file));
     }
 
+    // Do this after the files are copied. Browsers don't run TypeScript, so
+    // write a transpiled .js file next to each .ts file, and modify HTML files
+    // to refer to it.
+    for (const sketch of sketches) {
+      const tsFiles = sketch.files.filter(isTypeScriptPathname);
+      for (const file of tsFiles) {
+        const source = path.join(sketch.dir, file);
+        const outputFile = path
+          .join(output, path.relative(dir, source))
+          .replace(/\.ts$/i, '.js');
+        yield { kind: 'transpile', source, outputFile };
+      }
+      if (sketch.htmlFile && tsFiles.length) {
+        const outputFile = path.join(output, path.relative(dir, sketch.htmlFilePath!));
+        yield { kind: 'replaceTypeScriptPaths', outputFile };
+      }
+    }
+
     if (!allFiles.find(file => /^index\.html?$/i.test(file))) {
       // Generate the index from the target, rather than the source, so that it
       // will refer to generated HTML files instead of the bare JavaScript
@@ -189,6 +240,10 @@ async function runActions(actions: ActionIterator, options: Options) {
         return ['Generate sketch HTML', action.sketch.scriptFile, '->', outputFile];
       case 'createSourceView':
         return ['Create source view', action.source, '->', outputFile];
+      case 'replaceTypeScriptPaths':
+        return ['Replace TypeScript script paths', outputFile];
+      case 'transpile':
+        return ['Transpile', action.source, '->', outputFile];
       case 'mkdir':
         if (!fs.existsSync(outputFile)) {
           return ['Create directory', outputFile];
@@ -230,7 +285,10 @@ async function runActions(actions: ActionIterator, options: Options) {
       }
       case 'createSketchHtml': {
         const { sketch } = action;
-        const html = await sketch.getHtmlContent();
+        let html = await sketch.getHtmlContent();
+        if (isTypeScriptPathname(sketch.scriptFile)) {
+          html = replaceTypeScriptPaths(html);
+        }
         await writeFile(outputFile, html);
         filesCreated += 1;
         break;
@@ -246,7 +304,34 @@ async function runActions(actions: ActionIterator, options: Options) {
       case 'mkdir':
         fs.mkdirSync(outputFile, { recursive: true });
         break;
+      case 'replaceTypeScriptPaths': {
+        const html = fs.readFileSync(outputFile, 'utf-8');
+        await writeFile(outputFile, replaceTypeScriptPaths(html));
+        break;
+      }
+      case 'transpile': {
+        const source = fs.readFileSync(action.source, 'utf-8');
+        await writeFile(outputFile, transpileTypeScript(source, action.source));
+        filesCreated += 1;
+        break;
+      }
     }
     return { filesCreated };
   }
 }
+
+/** Replace the .ts extensions of local script paths in an HTML document by
+ * .js. */
+function replaceTypeScriptPaths(html: string): string {
+  const htmlRoot = parseHtml(html);
+  const scripts = htmlRoot
+    .querySelectorAll('script[src]')
+    .filter(
+      e => !/^https?:/.test(e.attributes.src) && isTypeScriptPathname(e.attributes.src)
+    );
+  if (scripts.length === 0) return html;
+  for (const e of scripts) {
+    e.setAttribute('src', e.attributes.src.replace(/\.ts$/i, '.js'));
+  }
+  return htmlRoot.outerHTML;
+}
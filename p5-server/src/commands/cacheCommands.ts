@@ -1,4 +1,6 @@
 import nunjucks from 'nunjucks';
+import { applyCdnOption, applyP5VersionOption } from 'p5-analysis';
+import { die } from '../helpers';
 import { contentProxyCache } from '../server/cdnProxy';
 
 function configureNunjucks() {
@@ -14,7 +16,25 @@ export async function clearCache(): Promise<void> {
   console.log(count ? `Cleared ${count} entries` : 'Cache cleared');
 }
 
-export async function fillCache({ force = false, verbose = false, reload = false }) {
+export async function fillCache({
+  force = false,
+  verbose = false,
+  reload = false,
+  p5Version,
+  cdn
+}: {
+  force?: boolean;
+  verbose?: boolean;
+  reload?: boolean;
+  p5Version?: string;
+  cdn?: string;
+}) {
+  try {
+    applyP5VersionOption(p5Version);
+    applyCdnOption(cdn);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
   const stats = await contentProxyCache.warm({ force, reload }, (message) => {
     switch (message.type) {
       case 'initial':
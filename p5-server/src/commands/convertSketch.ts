@@ -22,11 +22,13 @@ export default async function convert(sketchPath: string, options: { to: string
     sketchPath += '.html';
   if (!fs.existsSync(sketchPath) && fs.existsSync(sketchPath + '.js'))
     sketchPath += '.js';
+  if (!fs.existsSync(sketchPath) && fs.existsSync(sketchPath + '.ts'))
+    sketchPath += '.ts';
   // TODO: if it's a script file that belongs to an HTML index in the same directory, warn or rename the index instead
   const sketch = await Sketch.fromFile(sketchPath);
 
   if (targetType === 'folder') {
-    const targetDir = sketchPath.replace(/\.(html?|js)/i, '');
+    const targetDir = sketchPath.replace(/\.(html?|js|ts)/i, '');
     fs.mkdirSync(targetDir, { recursive: true });
     sketch.files.forEach(file => {
       const targetName = file === sketch.htmlFile ? 'index.html' : file;
@@ -11,7 +11,7 @@ export default async function create(file: string, options: Options) {
   if (options.type && !options.type.match(/folder|file/)) {
     die('create: type must be "folder" or "file"');
   }
-  if (options.type === 'folder' || !/\.(js|html?)$/i.test(file)) {
+  if (options.type === 'folder' || !/\.(js|ts|html?)$/i.test(file)) {
     try {
       fs.mkdirSync(file);
     } catch (err) {
@@ -1,4 +1,5 @@
 import chalk, { Chalk } from 'chalk';
+import { applyCdnOption, applyP5VersionOption } from 'p5-analysis';
 import {
   BrowserConnectionEvent,
   BrowserConsoleEvent,
@@ -14,8 +15,10 @@ import { Server } from '../server/Server';
 
 type Options = {
   browser?: 'safari' | 'chrome' | 'firefox' | 'edge';
+  cdn?: string;
   console?: boolean | 'json' | 'passive';
   open?: boolean;
+  p5Version?: string;
   port?: string;
   proxyCache?: boolean;
   split?: boolean;
@@ -43,6 +46,13 @@ export default async function serve(files: string[], options: Options) {
     );
   }
 
+  try {
+    applyP5VersionOption(options.p5Version);
+    applyCdnOption(options.cdn);
+  } catch (e) {
+    die(e instanceof Error ? e.message : String(e));
+  }
+
   const file = files[0] || '.';
   const displayName = file === '.' ? process.cwd() : file;
   const serverOptions: Server.Options = {
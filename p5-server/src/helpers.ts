@@ -1,8 +1,58 @@
 import chalk from 'chalk';
 import { HTMLElement, parse as parseHtml } from 'node-html-parser';
 import open from 'open';
+import { AssetIssue, Library, LibraryIssue } from 'p5-analysis';
 import path from 'path';
 
+/** A one-line description of a missing or case-mismatched sketch file. */
+export function describeAssetIssue(issue: AssetIssue): string {
+  switch (issue.type) {
+    case 'caseMismatch':
+      return `${issue.referencedBy} refers to ${issue.file}, but the file is named ${issue.actualFile}`;
+    case 'missing':
+      return `${issue.referencedBy} refers to ${issue.file}, which doesn't exist`;
+  }
+}
+
+/** A one-line description of a problem with a library that a sketch uses. */
+export function describeLibraryIssue(issue: LibraryIssue): string {
+  switch (issue.type) {
+    case 'outdatedVersion':
+      return `${issue.library} ${issue.version} is older than the recommended version, ${issue.recommendedVersion}`;
+    case 'deprecatedLibrary':
+      return `${issue.library} is deprecated${issue.message ? `: ${issue.message}` : ''}${issue.replacedBy ? `. Use ${issue.replacedBy} instead` : ''}`;
+    case 'incompatibleLibrary':
+      return `${issue.library} doesn't work with p5.js ${issue.p5Version}. It works with p5.js ${issue.p5Versions}`;
+    case 'ambiguousReference':
+      return `${issue.name} is defined by more than one library: ${issue.libraries.join(', ')}`;
+  }
+}
+
+/** A one-line description of the reasons that a sketch uses a library. File
+ * names are relative to `dir`. */
+export function describeLibraryInference({ reasons }: Library.Inference, dir: string): string {
+  const formatLocations = (locations: readonly { file?: string; line: number }[]) =>
+    locations.length > 0
+      ? ` (${locations.map(loc => `${loc.file ? `${path.relative(dir, loc.file)}:` : 'line '}${loc.line}`).join(', ')})`
+      : '';
+  return reasons
+    .map(reason => {
+      switch (reason.type) {
+        case 'global':
+          return `Uses ${reason.name}${formatLocations(reason.locations)}`;
+        case 'p5Property':
+          return `Uses p5.${reason.name}${formatLocations(reason.locations)}`;
+        case 'directive':
+          return `Named by // ${reason.directive}${formatLocations(reason.locations)}`;
+        case 'dependency':
+          return `Required by ${reason.requiredBy.join(', ')}`;
+        case 'scriptTag':
+          return `Loaded by ${reason.file || 'a script tag'}`;
+      }
+    })
+    .join('. ');
+}
+
 /** Print the message to standard output; then exit with status code 1.
  */
 export function die(message: string): never {
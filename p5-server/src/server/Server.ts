@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import express from 'express';
 import fs from 'fs';
+import { Cdn, setDefaultP5Version } from 'p5-analysis';
 import path from 'path';
 import pug from 'pug';
 import { EventEmitter } from 'stream';
@@ -39,6 +40,15 @@ export namespace Server {
      */
     proxyCache: boolean;
 
+    /** The p5.js version for sketches that don't specify one. This sets the
+     * default for the process; see p5-analysis `setDefaultP5Version()`. */
+    p5Version: string | null;
+
+    /** The CDN that generated import paths use, or null to use the CDNs in
+     * the library list. This sets the preferred CDN for the process; see
+     * p5-analysis `Cdn.preferred`. */
+    cdn: string | null;
+
     /** If true, relay console events from the sketch to an emitter on the
      * server. */
     relayConsoleMessages: boolean;
@@ -81,8 +91,10 @@ export type RouterConfig = Server.Options & {
 type MountPoint = { filePath: string; urlPath: string; name?: string };
 
 const defaultServerOptions = {
+  cdn: null,
   liveServer: true,
   logConsoleEvents: false,
+  p5Version: null,
   port: 3000,
   proxyCache: true,
   relayConsoleMessages: false,
@@ -199,6 +211,8 @@ export class Server {
     // in mountPoints instead.
     this.config = { ...defaultServerOptions, root: null, ...options, mountPoints };
     this.config.theme ||= defaultServerOptions.theme;
+    if (this.config.p5Version) setDefaultP5Version(this.config.p5Version);
+    if (this.config.cdn) Cdn.preferred = this.config.cdn;
   }
 
   /** Create and start the server. Returns the instance. */
@@ -1,6 +1,4 @@
-import { Cdn, Library } from 'p5-analysis';
-import { p5Version } from 'p5-analysis/dist/models/Library';
-import { isDefined } from '../ts-extras';
+import { Cdn, getDefaultP5Version, getP5ImportPath, Library } from 'p5-analysis';
 import { createProxyCache } from './proxyCache';
 
 export const proxyPrefix = '/__p5_proxy_cache';
@@ -17,14 +15,12 @@ const cdnDomains = [
   'cdn.jsdelivr.net',
 ]
 
-/** URLs to warm the cache with, that can't be inferred from the libraries, in
- * addition to library loadPaths.
+/** URLs to warm the cache with, that can't be inferred from the libraries or
+ * the p5.js version, in addition to library loadPaths.
  *
  * It's okay if these have repeats. The cache warmer deduplicates URLs anyway.
  */
 const cacheSeeds = [
-  // TODO: use an API to retrieve this constant
-  `https://cdn.jsdelivr.net/npm/p5@${p5Version}/lib/p5.min.js`, // p5importPath
   // TODO: read the following from the template file. Or, add these to the package.
   // directory.pug
   'https://cdn.jsdelivr.net/npm/jquery@3.6/dist/jquery.min.js',
@@ -53,16 +49,31 @@ export function isCdnUrl(url: string): boolean {
 let _libraryImportPaths: Set<string>;
 
 function getLibraryImportPaths() {
-  _libraryImportPaths ??= new Set(Library.all.map(lib => lib.importPath).filter(isDefined));
+  _libraryImportPaths ??= new Set(Library.all.flatMap(lib => [...lib.getScriptPaths(), ...lib.getStylesheetPaths()]));
   return _libraryImportPaths;
 }
 
 //#endregion
 
+/** The cache seeds. This is a function, so that the p5.js import paths use the
+ * default p5.js version at the time that the cache is warmed, after the
+ * `--p5-version` option has been applied. */
+function getCacheSeeds() {
+  const p5Version = getDefaultP5Version();
+  return [
+    getP5ImportPath(p5Version),
+    ...cacheSeeds,
+    ...Library.all.flatMap(lib => [
+      ...lib.getScriptPaths(p5Version),
+      ...lib.getStylesheetPaths(p5Version),
+    ]),
+  ];
+}
+
 export const contentProxyCache = createProxyCache({
   proxyPrefix,
   cachePath,
-  cacheSeeds: [...cacheSeeds, ...getLibraryImportPaths()],
+  cacheSeeds: getCacheSeeds,
   shouldProxyPath: isCdnUrl,
 });
 
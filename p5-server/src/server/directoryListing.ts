@@ -1,9 +1,9 @@
 import fs from 'fs';
 import marked from 'marked';
-import { Sketch } from 'p5-analysis';
+import { Library, Sketch } from 'p5-analysis';
 import path from 'path';
 import pug from 'pug';
-import { pathComponentsForBreadcrumbs } from '../helpers';
+import { describeAssetIssue, describeLibraryInference, pathComponentsForBreadcrumbs } from '../helpers';
 import { staticAssetPrefix } from './constants';
 import { markedOptions, templateDir } from './templates';
 
@@ -14,6 +14,7 @@ export const defaultDirectoryExclusions = [
   'node_modules',
   'package.json',
   'package-lock.json',
+  'tsconfig.json',
 
   // Linux
   '~*', // backup file
@@ -78,6 +79,11 @@ export async function createDirectoryListing(
     );
   }
   const pathComponents = pathComponentsForBreadcrumbs(breadcrumbPath || dir);
+  const libraryInferences = new Map<Sketch, readonly Library.Inference[]>();
+  // the tags of all the sketches, for themes that filter sketches by tag
+  const tags = [...new Set(sketches.flatMap(sk => sk.metadata.tags))].sort((a, b) =>
+    a.localeCompare(b)
+  );
   return pug.renderFile(templatePath, {
     ...templateOptions,
     staticAssetPrefix,
@@ -87,20 +93,38 @@ export async function createDirectoryListing(
     pathComponents,
     readme,
     sketches,
+    tags,
     title,
 
     // functions
+    asset_issues_tooltip,
     directory_index,
+    library_tooltip,
     path_to,
     path_to_src_view,
     markdown,
     play_link,
+    thumbnail_url,
 
     // pug options
     cache: true,
     filters: { markdown },
   });
 
+  function asset_issues_tooltip(sk: Sketch) {
+    return sk.assetIssues.map(describeAssetIssue).join('. ');
+  }
+
+  function library_tooltip(sk: Sketch, library: Library) {
+    let inferences = libraryInferences.get(sk);
+    if (!inferences) {
+      inferences = sk.explainLibraries();
+      libraryInferences.set(sk, inferences);
+    }
+    const inference = inferences.find(i => i.library.name === library.name);
+    return inference ? describeLibraryInference(inference, sk.dir) : '';
+  }
+
   function directory_index(dir: string) {
     return staticMode ? `${dir}/index.html` : `${dir}/`;
   }
@@ -117,15 +141,21 @@ export async function createDirectoryListing(
     const filepath = path_to(file, sk);
     return staticMode
       ? `${filepath}.html`
-      : filepath.match(/.*\.(html?|js)$/i)
+      : filepath.match(/.*\.(html?|js|ts)$/i)
       ? `${filepath}?fmt=view`
       : filepath;
   }
 
+  function thumbnail_url(sk: Sketch) {
+    const { thumbnail } = sk.metadata;
+    if (!thumbnail) return null;
+    return /^([a-z]+:|\/)/i.test(thumbnail) ? thumbnail : path_to(thumbnail, sk);
+  }
+
   function play_link(sk: Sketch) {
     return path_to(
       staticMode && sk.structureType === 'script'
-        ? sk.mainFile.replace(/\.js$/i, '.html')
+        ? sk.mainFile.replace(/\.(js|ts)$/i, '.html')
         : sk.mainFile,
       sk
     );
@@ -16,7 +16,8 @@ const debug = require('debug')('p5-server:proxy-cache');
 //#region exported types
 export type ProxyCacheOptions = {
   cachePath: string;
-  cacheSeeds: string[];
+  /** URLs to warm the cache with, or a function that returns them. */
+  cacheSeeds: string[] | (() => string[]);
   proxyPrefix: string;
   shouldProxyPath: (url: string) => boolean;
 };
@@ -446,7 +447,9 @@ export function createProxyCache({
     const concurrency = 20; // max number of requests to make at once
     const stats = { total: 0, failures: 0, hits: 0, misses: 0 };
     const urls = removeArrayDuplicates(
-      reload ? await getCachedUrls() : cacheSeeds
+      reload
+        ? await getCachedUrls()
+        : typeof cacheSeeds === 'function' ? cacheSeeds() : cacheSeeds
     ).sort();
     callback?.({ type: 'initial', total: urls.length });
 
@@ -1,10 +1,11 @@
+import chalk from 'chalk';
 import express from 'express';
 import { Request, Response } from 'express-serve-static-core';
 import fs from 'fs';
 import { readdir, readFile } from 'fs/promises';
-import { Script, Sketch } from 'p5-analysis';
+import { isTypeScriptPathname, Script, Sketch } from 'p5-analysis';
 import path from 'path';
-import { addScriptToHtmlHead } from '../helpers';
+import { addScriptToHtmlHead, describeLibraryIssue } from '../helpers';
 import { assertError } from '../ts-extras';
 import { injectScriptEventRelayScript } from './browserScriptEventRelay';
 import { replaceUrlsInHtml } from './cdnProxy';
@@ -17,6 +18,7 @@ import {
   markdownToHtmlPage,
   sourceViewTemplate
 } from './templates';
+import { transpileTypeScript } from './typescript';
 
 export function createRouter(config: RouterConfig): express.Router {
   const router = express.Router();
@@ -28,6 +30,7 @@ export function createRouter(config: RouterConfig): express.Router {
     if (sketchFile) {
       if (await Sketch.isSketchScriptFile(sketchFile)) {
         const sketch = await Sketch.fromFile(sketchFile);
+        warnAboutLibraryIssues(sketch);
         sendHtml(req, res, await sketch.getHtmlContent());
       } else {
         sendHtml(req, res, await readFile(sketchFile, 'utf-8'));
@@ -89,7 +92,8 @@ export function createRouter(config: RouterConfig): express.Router {
 
   // A request for the HTML of a JavaScript file returns HTML that includes the sketch.
   // A request for the HTML of a main sketch js file redirects to the sketch's index page.
-  router.get('/*.js', async (req, res, next) => {
+  // A request for a TypeScript file returns the transpiled JavaScript.
+  router.get(['/*.js', '/*.ts'], async (req, res, next) => {
     const filepath = path.join(config.root, decodeURIComponent(req.path));
 
     // bare-javascript sketch; not view source
@@ -105,6 +109,7 @@ export function createRouter(config: RouterConfig): express.Router {
         sketch.files.includes(path.basename(filepath))
       );
       if (sketch) {
+        warnAboutLibraryIssues(sketch);
         return sendHtml(req, res, await sketch.getHtmlContent());
       }
     }
@@ -119,12 +124,17 @@ export function createRouter(config: RouterConfig): express.Router {
     }
 
     try {
-      const errs = Script.fromFile(filepath).getErrors();
+      const script = Script.fromFile(filepath);
+      const errs = script.getErrors();
       if (errs.length) {
         console.error(`Syntax error in ${filepath}: ${errs[0].message}`);
         res.set('Content-Type', 'text/html');
         return res.send(createSyntaxErrorJsReporter(filepath, errs));
       }
+      if (isTypeScriptPathname(filepath) && req.query.fmt !== 'view') {
+        res.set('Content-Type', 'text/javascript');
+        return res.send(transpileTypeScript(script.source, filepath));
+      }
     } catch (err) {
       assertError(err);
       if (err.code === 'ENOENT') {
@@ -220,3 +230,19 @@ async function sendDirectoryListing<T>(
   if (config.proxyCache) html = replaceUrlsInHtml(html);
   return res.send(html);
 }
+
+/** Library warnings that have already been printed, so that reloading a sketch
+ * doesn't repeat them. */
+const reportedLibraryIssues = new Set<string>();
+
+/** Prints a warning on the server console for each deprecated or incompatible
+ * library that a served sketch uses. */
+function warnAboutLibraryIssues(sketch: Sketch) {
+  for (const issue of sketch.libraryIssues) {
+    if (issue.type !== 'deprecatedLibrary' && issue.type !== 'incompatibleLibrary') continue;
+    const message = `${path.join(sketch.dir, sketch.mainFile)}: ${describeLibraryIssue(issue)}`;
+    if (reportedLibraryIssues.has(message)) continue;
+    reportedLibraryIssues.add(message);
+    console.warn(chalk.yellow(`Warning: ${message}`));
+  }
+}
@@ -0,0 +1,15 @@
+import { transformSync } from 'esbuild';
+import path from 'path';
+
+/** Transpile a TypeScript file to JavaScript. This removes the type
+ * annotations; it does not type-check the source. The source map is inlined,
+ * so that browser stack traces and debuggers refer to the TypeScript source.
+ */
+export function transpileTypeScript(source: string, filepath: string): string {
+  const { code } = transformSync(source, {
+    loader: 'ts',
+    sourcefile: path.basename(filepath),
+    sourcemap: 'inline'
+  });
+  return code;
+}
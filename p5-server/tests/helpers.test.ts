@@ -1,4 +1,11 @@
-import { pathComponentsForBreadcrumbs, pathIsInDirectory } from '../src/helpers';
+import { Library } from 'p5-analysis';
+import {
+  describeAssetIssue,
+  describeLibraryInference,
+  describeLibraryIssue,
+  pathComponentsForBreadcrumbs,
+  pathIsInDirectory
+} from '../src/helpers';
 
 test('pathIsInDirectory', () => {
   expect(pathIsInDirectory('a/b', 'a/b/c')).toBe(true);
@@ -25,3 +32,87 @@ test('pathComponentsForBreadcrumbs', () => {
     { path: '/a/b', name: 'b' }
   ]);
 });
+
+test('describeAssetIssue', () => {
+  expect(
+    describeAssetIssue({ type: 'missing', file: 'cat.png', referencedBy: 'sketch.js' })
+  ).toBe("sketch.js refers to cat.png, which doesn't exist");
+  expect(
+    describeAssetIssue({
+      type: 'caseMismatch',
+      file: 'Cat.PNG',
+      actualFile: 'cat.png',
+      referencedBy: 'sketch.js'
+    })
+  ).toBe('sketch.js refers to Cat.PNG, but the file is named cat.png');
+});
+
+test('describeLibraryIssue', () => {
+  expect(
+    describeLibraryIssue({
+      type: 'deprecatedLibrary',
+      library: 'p5.dom',
+      message: 'p5.js includes it',
+      replacedBy: 'p5.js'
+    })
+  ).toBe('p5.dom is deprecated: p5.js includes it. Use p5.js instead');
+  expect(describeLibraryIssue({ type: 'deprecatedLibrary', library: 'p5.dom' })).toBe(
+    'p5.dom is deprecated'
+  );
+  expect(
+    describeLibraryIssue({
+      type: 'incompatibleLibrary',
+      library: 'p5.legacy',
+      p5Version: '1.4',
+      p5Versions: '0.x'
+    })
+  ).toBe("p5.legacy doesn't work with p5.js 1.4. It works with p5.js 0.x");
+});
+
+test('describeLibraryInference', () => {
+  const library = Library.find({ name: 'p5.sound' })!;
+  const location = (file: string, line: number) => ({
+    file,
+    line,
+    column: 0,
+    range: [0, 0] as [number, number]
+  });
+  expect(
+    describeLibraryInference(
+      {
+        library,
+        reasons: [
+          {
+            type: 'global',
+            name: 'loadSound',
+            locations: [
+              location('sketch/sketch.js', 3),
+              location('sketch/sketch.js', 8)
+            ]
+          },
+          { type: 'p5Property', name: 'Pulse', locations: [] },
+          {
+            type: 'directive',
+            directive: 'library: p5.sound',
+            locations: [location('sketch/lib/sound.js', 1)]
+          }
+        ]
+      },
+      'sketch'
+    )
+  ).toBe(
+    'Uses loadSound (sketch.js:3, sketch.js:8). Uses p5.Pulse. Named by // library: p5.sound (lib/sound.js:1)'
+  );
+  expect(
+    describeLibraryInference(
+      {
+        library,
+        reasons: [
+          { type: 'dependency', requiredBy: ['p5.widgets'] },
+          { type: 'scriptTag', importPath: library.importPath!, file: 'index.html' }
+        ]
+      },
+      'sketch'
+    )
+  ).toBe('Required by p5.widgets. Loaded by index.html');
+});
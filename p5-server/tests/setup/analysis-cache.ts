@@ -0,0 +1,11 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep the tests' script analyses out of the user's analysis cache.
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'p5-analysis-cache-'));
+process.env.P5_ANALYSIS_CACHE_DIR = cacheDir;
+
+afterAll(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
@@ -0,0 +1,19 @@
+import { transpileTypeScript } from '../src/server/typescript';
+
+describe('transpileTypeScript', () => {
+  test('removes type annotations', () => {
+    const js = transpileTypeScript(
+      'let size: number = 10;\nfunction setup(): void {\n  createCanvas(size, size);\n}\n',
+      'sketch.ts'
+    );
+    expect(js).toContain('let size = 10;');
+    expect(js).toContain('function setup() {');
+    expect(js).not.toContain(': void');
+  });
+
+  test('inlines a source map', () => {
+    expect(transpileTypeScript('let a: number;', 'sketch.ts')).toMatch(
+      /\/\/# sourceMappingURL=data:application\/json;base64,/
+    );
+  });
+});